@@ -1,10 +1,44 @@
-import { useRef, useState, useCallback } from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import { useRef, useState, useCallback, useEffect } from "react";
+import { motion, AnimatePresence, animate, type AnimationPlaybackControls } from "framer-motion";
+import { useI18n } from "@/i18n/context";
+import { useMotion } from "@/motion/context";
+import { subscribeDuck, unlockSfx } from "@/lib/sfx";
+import { requestTiltPermission } from "@/lib/tilt";
+
+const MUSIC_VOLUME = 0.2;
+// How far the music dips while a tear sound plays over it
+const DUCK_VOLUME = 0.06;
+
+// Resting heights of the music bars when motion is reduced
+const STILL_BARS = [8, 14, 10];
 
 const BackgroundMusic = () => {
+  const { t } = useI18n();
+  const { reduceMotion } = useMotion();
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [entered, setEntered] = useState(false);
   const [userPaused, setUserPaused] = useState(false);
+  const duckRef = useRef<AnimationPlaybackControls | null>(null);
+
+  // Dip the music under the final rip, then bring it back
+  useEffect(
+    () =>
+      subscribeDuck((duration) => {
+        const audio = audioRef.current;
+        if (!audio || audio.paused) return;
+        duckRef.current?.stop();
+        const levels = [audio.volume, DUCK_VOLUME, DUCK_VOLUME, MUSIC_VOLUME];
+        duckRef.current = animate(audio.volume, levels, {
+          duration: duration + 0.6,
+          times: [0, 0.1, 0.5, 1],
+          ease: "easeInOut",
+          onUpdate: (volume) => {
+            audio.volume = volume;
+          },
+        });
+      }),
+    [],
+  );
 
   // Called once on the very first click — this is the user gesture that unlocks audio
   const enter = useCallback(() => {
@@ -12,7 +46,7 @@ const BackgroundMusic = () => {
 
     const audio = new Audio(import.meta.env.BASE_URL + "a-thousand-years.mp3");
     audio.loop = true;
-    audio.volume = 0.2;
+    audio.volume = MUSIC_VOLUME;
     audioRef.current = audio;
 
     audio.addEventListener("pause", () => setUserPaused(true));
@@ -20,6 +54,9 @@ const BackgroundMusic = () => {
 
     // This play() call is inside a direct click handler — browsers will allow it
     audio.play().catch(() => {});
+    unlockSfx();
+    // The letter's tilt on phones needs the same tap on iOS
+    requestTiltPermission();
 
     setEntered(true);
   }, [entered]);
@@ -36,24 +73,26 @@ const BackgroundMusic = () => {
 
   return (
     <>
-      {/* Gate screen — click anywhere to enter and start music */}
+      {/* Gate screen — click anywhere (or press Enter) to enter and start music */}
       <AnimatePresence>
         {!entered && (
-          <motion.div
-            className="fixed inset-0 z-[100] flex cursor-pointer flex-col items-center justify-center bg-background"
+          <motion.button
+            type="button"
+            autoFocus
+            className="fixed inset-0 z-[100] flex cursor-pointer flex-col items-center justify-center bg-background outline-none"
             onClick={enter}
             exit={{ opacity: 0 }}
             transition={{ duration: 0.6, ease: "easeOut" }}
           >
-            <motion.p
+            <motion.span
               className="font-body text-sm tracking-[0.2em] uppercase text-muted-foreground"
               initial={{ opacity: 0 }}
-              animate={{ opacity: [0.4, 0.8, 0.4] }}
-              transition={{ duration: 2.5, repeat: Infinity, ease: "easeInOut" }}
+              animate={{ opacity: reduceMotion ? 0.7 : [0.4, 0.8, 0.4] }}
+              transition={{ duration: 2.5, repeat: reduceMotion ? 0 : Infinity, ease: "easeInOut" }}
             >
-              tap to begin
-            </motion.p>
-          </motion.div>
+              {t("gate.begin")}
+            </motion.span>
+          </motion.button>
         )}
       </AnimatePresence>
 
@@ -61,11 +100,11 @@ const BackgroundMusic = () => {
       {entered && (
         <motion.button
           onClick={toggleMusic}
-          className="fixed bottom-5 right-5 z-40 flex h-10 w-10 items-center justify-center rounded-full border border-primary/20 bg-background/80 text-primary/60 shadow-lg backdrop-blur-sm transition-colors hover:border-primary/40 hover:text-primary"
+          className="fixed bottom-5 end-5 z-40 flex h-10 w-10 items-center justify-center rounded-full border border-primary/20 bg-background/80 text-primary/60 shadow-lg backdrop-blur-sm transition-colors hover:border-primary/40 hover:text-primary"
           initial={{ opacity: 0, scale: 0.8 }}
           animate={{ opacity: 1, scale: 1 }}
           transition={{ delay: 0.8, duration: 0.4 }}
-          aria-label={userPaused ? "Play music" : "Pause music"}
+          aria-label={userPaused ? t("music.play") : t("music.pause")}
         >
           {!userPaused ? (
             <div className="flex items-end gap-[3px]" style={{ height: 16 }}>
@@ -73,10 +112,10 @@ const BackgroundMusic = () => {
                 <motion.div
                   key={i}
                   className="w-[3px] rounded-full bg-current"
-                  animate={{ height: [4, 14, 6, 12, 4] }}
+                  animate={{ height: reduceMotion ? STILL_BARS[i] : [4, 14, 6, 12, 4] }}
                   transition={{
                     duration: 1.2,
-                    repeat: Infinity,
+                    repeat: reduceMotion ? 0 : Infinity,
                     delay: i * 0.15,
                     ease: "easeInOut",
                   }}
@@ -1,4 +1,4 @@
-import { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { motion, useScroll, useTransform } from "framer-motion";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,25 +14,43 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { useI18n, type I18nContextValue } from "@/i18n/context";
+import { useMotion } from "@/motion/context";
 
 const WEB3FORMS_KEY = "e598fd91-5000-4293-ad81-2f314aaa0ee3";
 
-const formSchema = z.object({
-  address1: z.string().min(1, "Address is required"),
-  address2: z.string().optional(),
-  city: z.string().min(1, "City is required"),
-  state: z.string().min(1, "State / Province is required"),
-  postalCode: z.string().min(1, "Postal code is required"),
-});
+const createFormSchema = (t: I18nContextValue["t"]) =>
+  z.object({
+    address1: z.string().min(1, t("flower.address1Required")),
+    address2: z.string().optional(),
+    city: z.string().min(1, t("flower.cityRequired")),
+    state: z.string().min(1, t("flower.stateRequired")),
+    postalCode: z.string().min(1, t("flower.postalCodeRequired")),
+  });
+
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
 
-type FormValues = z.infer<typeof formSchema>;
+interface FlowerSectionProps {
+  // Preview mode skips the real submission so composing a letter never sends anything
+  preview?: boolean;
+  scrollContainer?: React.RefObject<HTMLElement>;
+  // Move focus to the first field when the section appears
+  focusOnMount?: boolean;
+}
 
-const FlowerSection = () => {
+const FlowerSection = ({
+  preview = false,
+  scrollContainer,
+  focusOnMount = false,
+}: FlowerSectionProps) => {
+  const { t } = useI18n();
+  const { reduceMotion } = useMotion();
   const sectionRef = useRef<HTMLElement>(null);
   const [submitted, setSubmitted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const { scrollYProgress } = useScroll({
+    container: scrollContainer,
     target: sectionRef,
     offset: ["start end", "start 0.4"],
   });
@@ -40,6 +58,13 @@ const FlowerSection = () => {
   const sectionOpacity = useTransform(scrollYProgress, [0, 1], [0, 1]);
   const sectionY = useTransform(scrollYProgress, [0, 1], [50, 0]);
 
+  const formSchema = useMemo(() => createFormSchema(t), [t]);
+
+  useEffect(() => {
+    if (!focusOnMount) return;
+    sectionRef.current?.querySelector("input")?.focus({ preventScroll: true });
+  }, [focusOnMount]);
+
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -52,6 +77,10 @@ const FlowerSection = () => {
   });
 
   const onSubmit = async (data: FormValues) => {
+    if (preview) {
+      setSubmitted(true);
+      return;
+    }
     setIsSubmitting(true);
     try {
       const response = await fetch("https://api.web3forms.com/submit", {
@@ -73,13 +102,13 @@ const FlowerSection = () => {
       if (result.success) {
         setSubmitted(true);
       } else {
-        toast.error("Something went wrong", {
-          description: "Please try again in a moment.",
+        toast.error(t("flower.errorTitle"), {
+          description: t("flower.errorDescription"),
         });
       }
     } catch {
-      toast.error("Couldn't send", {
-        description: "Please check your connection and try again.",
+      toast.error(t("flower.offlineTitle"), {
+        description: t("flower.offlineDescription"),
       });
     } finally {
       setIsSubmitting(false);
@@ -95,7 +124,8 @@ const FlowerSection = () => {
       className="flex min-h-[70vh] items-center justify-center bg-background px-4 pb-28 pt-10 sm:px-6"
     >
       <motion.div
-        style={{ opacity: sectionOpacity, y: sectionY }}
+        // Reduced motion keeps the scroll-linked fade but drops the slide
+        style={{ opacity: sectionOpacity, y: reduceMotion ? 0 : sectionY }}
         className="w-full max-w-md"
       >
         <div
@@ -110,11 +140,11 @@ const FlowerSection = () => {
               {/* Header */}
               <div className="mb-8 text-center">
                 <p className="font-script text-2xl text-rose-deep sm:text-3xl">
-                  Let pirsu buy you a flower.
+                  {t("flower.title")}
                 </p>
                 <div className="mx-auto mt-4 h-px w-12 bg-primary/20" />
                 <p className="mt-4 font-body text-sm leading-relaxed tracking-wide text-muted-foreground sm:text-base">
-                  Tell me where to send it, and a bloom will find its way to you. hihi
+                  {t("flower.subtitle")}
                 </p>
               </div>
 
@@ -130,11 +160,11 @@ const FlowerSection = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="font-body text-xs tracking-widest uppercase text-ink/60">
-                          Address Line 1
+                          {t("flower.address1")}
                         </FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="Street address"
+                            placeholder={t("flower.address1Placeholder")}
                             className={inputClassName}
                             {...field}
                           />
@@ -150,14 +180,14 @@ const FlowerSection = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="font-body text-xs tracking-widest uppercase text-ink/60">
-                          Address Line 2
-                          <span className="ml-1.5 normal-case tracking-normal text-muted-foreground/50">
-                            (optional)
+                          {t("flower.address2")}
+                          <span className="ms-1.5 normal-case tracking-normal text-muted-foreground/50">
+                            {t("flower.optional")}
                           </span>
                         </FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="Apt, suite, unit, etc."
+                            placeholder={t("flower.address2Placeholder")}
                             className={inputClassName}
                             {...field}
                           />
@@ -174,11 +204,11 @@ const FlowerSection = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel className="font-body text-xs tracking-widest uppercase text-ink/60">
-                            City
+                            {t("flower.city")}
                           </FormLabel>
                           <FormControl>
                             <Input
-                              placeholder="City"
+                              placeholder={t("flower.cityPlaceholder")}
                               className={inputClassName}
                               {...field}
                             />
@@ -194,11 +224,11 @@ const FlowerSection = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel className="font-body text-xs tracking-widest uppercase text-ink/60">
-                            State / Province
+                            {t("flower.state")}
                           </FormLabel>
                           <FormControl>
                             <Input
-                              placeholder="State"
+                              placeholder={t("flower.statePlaceholder")}
                               className={inputClassName}
                               {...field}
                             />
@@ -215,11 +245,11 @@ const FlowerSection = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="font-body text-xs tracking-widest uppercase text-ink/60">
-                          Postal Code
+                          {t("flower.postalCode")}
                         </FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="Postal code"
+                            placeholder={t("flower.postalCodePlaceholder")}
                             className={inputClassName}
                             {...field}
                           />
@@ -236,7 +266,7 @@ const FlowerSection = () => {
                       className="w-full font-body text-sm tracking-widest uppercase"
                       size="lg"
                     >
-                      {isSubmitting ? "Sending…" : "Send"}
+                      {isSubmitting ? t("flower.sending") : t("flower.send")}
                     </Button>
                   </div>
                 </form>
@@ -252,11 +282,11 @@ const FlowerSection = () => {
             >
               <span className="text-4xl">🌹</span>
               <p className="font-script text-xl text-rose-deep sm:text-2xl">
-                A flower will find its way to you.
+                {t("flower.confirmTitle")}
               </p>
               <div className="mx-auto h-px w-12 bg-primary/20" />
               <p className="font-body text-sm tracking-wide text-muted-foreground">
-                Thank you, Baby.
+                {t("flower.confirmThanks")}
               </p>
             </motion.div>
           )}
@@ -1,9 +1,20 @@
 import { motion } from "framer-motion";
 import { ChevronDown } from "lucide-react";
+import { useI18n } from "@/i18n/context";
+import { useMotion } from "@/motion/context";
 
-const HeroSection = () => {
+interface HeroSectionProps {
+  recipientName: string;
+}
+
+const HeroSection = ({ recipientName }: HeroSectionProps) => {
+  const { t } = useI18n();
+  const { reduceMotion } = useMotion();
   const scrollToLetter = () => {
-    document.getElementById("letter-section")?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const section = document.getElementById("letter-section");
+    section?.scrollIntoView({ behavior: reduceMotion ? "auto" : "smooth", block: "center" });
+    // Keyboard users land on the cover, ready to open it
+    section?.querySelector<HTMLElement>('[tabindex="0"], button')?.focus({ preventScroll: true });
   };
 
   return (
@@ -20,17 +31,26 @@ const HeroSection = () => {
               left: `${15 + Math.random() * 70}%`,
               top: `${10 + Math.random() * 80}%`,
             }}
-            animate={{
-              y: [0, -30, 0],
-              x: [0, 10 * (i % 2 === 0 ? 1 : -1), 0],
-              opacity: [0.2, 0.5, 0.2],
-            }}
-            transition={{
-              duration: 6 + Math.random() * 4,
-              repeat: Infinity,
-              delay: Math.random() * 3,
-              ease: "easeInOut",
-            }}
+            // A still target rather than none, so no looping animation is left running
+            animate={
+              reduceMotion
+                ? { x: 0, y: 0, opacity: 0.4 }
+                : {
+                    y: [0, -30, 0],
+                    x: [0, 10 * (i % 2 === 0 ? 1 : -1), 0],
+                    opacity: [0.2, 0.5, 0.2],
+                  }
+            }
+            transition={
+              reduceMotion
+                ? { duration: 0 }
+                : {
+                    duration: 6 + Math.random() * 4,
+                    repeat: Infinity,
+                    delay: Math.random() * 3,
+                    ease: "easeInOut",
+                  }
+            }
           />
         ))}
       </div>
@@ -47,7 +67,7 @@ const HeroSection = () => {
           animate={{ opacity: 1 }}
           transition={{ delay: 0.5, duration: 1 }}
         >
-          a letter for you
+          {t("hero.kicker")}
         </motion.p>
 
         <motion.h1
@@ -56,9 +76,9 @@ const HeroSection = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.8, duration: 1.2 }}
         >
-          Happy Valentine's
+          {t("hero.title")}
           <br />
-          <span className="font-script text-accent">Rain</span>
+          <span className="font-script text-accent">{recipientName}</span>
         </motion.h1>
 
         <motion.div
@@ -75,12 +95,14 @@ const HeroSection = () => {
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
         transition={{ delay: 2, duration: 1 }}
-        aria-label="Scroll to letter"
+        aria-label={t("hero.scrollToLetter")}
       >
-        <span className="font-body text-sm tracking-widest uppercase">Read my letter</span>
+        <span className="font-body text-sm tracking-widest uppercase">{t("hero.readLetter")}</span>
         <motion.div
-          animate={{ y: [0, 6, 0] }}
-          transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
+          animate={reduceMotion ? { y: 0 } : { y: [0, 6, 0] }}
+          transition={
+            reduceMotion ? { duration: 0 } : { duration: 2, repeat: Infinity, ease: "easeInOut" }
+          }
         >
           <ChevronDown className="h-5 w-5" />
         </motion.div>
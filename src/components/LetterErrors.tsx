@@ -0,0 +1,38 @@
+import { useI18n } from "@/i18n/context";
+
+interface LetterErrorsProps {
+  title?: string;
+  errors: string[];
+}
+
+// Shown in place of the letter when its content fails validation
+const LetterErrors = ({ title, errors }: LetterErrorsProps) => {
+  const { t } = useI18n();
+
+  return (
+    <section className="flex min-h-screen items-center justify-center bg-background px-4 py-10 sm:px-6">
+      <div
+        role="alert"
+        className="w-full max-w-lg rounded-sm bg-parchment px-7 py-10 sm:px-10"
+        style={{
+          boxShadow:
+            "0 6px 32px -10px hsl(350 40% 60% / 0.15), 0 2px 8px -3px hsl(350 30% 50% / 0.06)",
+        }}
+      >
+        <p className="text-center font-script text-2xl text-rose-deep sm:text-3xl">
+          {title ?? t("letter.invalidTitle")}
+        </p>
+        <div className="mx-auto mt-4 h-px w-12 bg-primary/20" />
+        <ul className="mt-6 space-y-2 font-body text-sm tracking-wide text-ink sm:text-base">
+          {errors.map((error, i) => (
+            <li key={i} className="border-s-2 border-primary/30 ps-3">
+              {error}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+};
+
+export default LetterErrors;
@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect } from "react";
+import HeroSection from "@/components/HeroSection";
+import LetterSection from "@/components/LetterSection";
+import FlowerSection from "@/components/FlowerSection";
+import BackgroundMusic from "@/components/BackgroundMusic";
+import SettingsMenu from "@/components/SettingsMenu";
+import type { LetterContent } from "@/lib/letter";
+
+interface LetterExperienceProps {
+  letter: LetterContent;
+}
+
+// The full gate → hero → tear → flower flow for a single letter
+const LetterExperience = ({ letter }: LetterExperienceProps) => {
+  const [scrollUnlocked, setScrollUnlocked] = useState(false);
+  const [focusFlower, setFocusFlower] = useState(false);
+
+  const handleRevealed = useCallback(() => {
+    // Wait 5 seconds after the tear before allowing scroll to the flower section
+    setTimeout(() => {
+      // Carry on to the form only if the reader's focus is still on the letter
+      setFocusFlower(!!document.activeElement?.closest("#letter-section"));
+      setScrollUnlocked(true);
+    }, 5000);
+  }, []);
+
+  // Always scroll to top on load/reload
+  useEffect(() => {
+    window.history.scrollRestoration = "manual";
+    window.scrollTo(0, 0);
+  }, []);
+
+  // Lock/unlock scroll on the body
+  useEffect(() => {
+    if (!scrollUnlocked) {
+      document.body.style.overflow = "hidden";
+    } else {
+      document.body.style.overflow = "";
+    }
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [scrollUnlocked]);
+
+  return (
+    <main className="bg-background">
+      <BackgroundMusic />
+      <SettingsMenu />
+      <HeroSection recipientName={letter.recipientName} />
+      <LetterSection letter={letter} onRevealed={handleRevealed} />
+      {scrollUnlocked && <FlowerSection focusOnMount={focusFlower} />}
+    </main>
+  );
+};
+
+export default LetterExperience;
@@ -0,0 +1,47 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import { parseBlock, type InlineNode } from "@/lib/markdown";
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{node.value}</Fragment>;
+      case "break":
+        return <br key={i} />;
+      case "emphasis":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "strong":
+        return (
+          <strong key={i} className="font-semibold">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case "script":
+        return (
+          <span key={i} className="font-script text-[1.2em] tracking-normal text-primary">
+            {renderInline(node.children)}
+          </span>
+        );
+    }
+  });
+}
+
+interface LetterParagraphProps {
+  text: string;
+}
+
+// Renders one letter paragraph through the Markdown subset — never as raw HTML
+const LetterParagraph = ({ text }: LetterParagraphProps) => {
+  const block = useMemo(() => parseBlock(text), [text]);
+
+  if (block.type === "blockquote") {
+    return (
+      <blockquote className="border-s-2 border-primary/25 ps-3 italic text-ink/80 sm:ps-5">
+        {renderInline(block.children)}
+      </blockquote>
+    );
+  }
+  return <p>{renderInline(block.children)}</p>;
+};
+
+export default LetterParagraph;
@@ -0,0 +1,68 @@
+import { motion } from "framer-motion";
+import { Heart } from "lucide-react";
+import LetterParagraph from "@/components/LetterParagraph";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/i18n/context";
+import { useMotion } from "@/motion/context";
+
+interface SecretRevealProps {
+  message: string;
+  senderName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Hearts that float up behind the secret, spread evenly with a little jitter
+const hearts = Array.from({ length: 12 }, (_, i) => ({
+  left: `${(i / 12) * 100 + ((i * 37) % 7)}%`,
+  size: 12 + ((i * 5) % 14),
+  delay: (i % 4) * 0.35 + i * 0.05,
+}));
+
+// The sender's hidden message, shown once the recipient draws the letter's secret shape
+const SecretReveal = ({ message, senderName, open, onOpenChange }: SecretRevealProps) => {
+  const { t } = useI18n();
+  const { reduceMotion } = useMotion();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden bg-parchment font-body">
+        {!reduceMotion && (
+          <div className="pointer-events-none absolute inset-0" aria-hidden>
+            {hearts.map(({ left, size, delay }, i) => (
+              <motion.div
+                key={i}
+                className="absolute bottom-0 text-primary/25"
+                style={{ left }}
+                initial={{ y: 40, opacity: 0 }}
+                animate={{ y: -360, opacity: [0, 1, 0] }}
+                transition={{ duration: 3.2, delay, ease: "easeOut" }}
+              >
+                <Heart fill="currentColor" width={size} height={size} />
+              </motion.div>
+            ))}
+          </div>
+        )}
+        <DialogHeader>
+          <DialogTitle className="font-script text-2xl font-normal text-primary">
+            {t("secret.title")}
+          </DialogTitle>
+          <DialogDescription>{t("secret.from", { name: senderName })}</DialogDescription>
+        </DialogHeader>
+        <div className="relative space-y-3 text-sm leading-relaxed tracking-wide text-ink">
+          {message.split(/\n\s*\n/).map((paragraph, i) => (
+            <LetterParagraph key={i} text={paragraph} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SecretReveal;
@@ -0,0 +1,84 @@
+import { Settings2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useI18n } from "@/i18n/context";
+import { locales } from "@/i18n/locales";
+import type { MessageKey } from "@/i18n/messages/en";
+import { useMotion } from "@/motion/context";
+import {
+  isMotionPreference,
+  motionPreferences,
+  type MotionPreference,
+} from "@/motion/preference";
+import { useSfx } from "@/hooks/use-sfx";
+
+const motionLabels: Record<MotionPreference, MessageKey> = {
+  system: "settings.motionSystem",
+  reduce: "settings.motionReduce",
+  full: "settings.motionFull",
+};
+
+// Floating preferences button; sits above the gate so the language can be chosen first
+const SettingsMenu = () => {
+  const { t, locale, setLocale } = useI18n();
+  const { preference, setPreference } = useMotion();
+  const { muted, setMuted } = useSfx();
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        className="fixed end-5 top-5 z-[110] flex h-10 w-10 items-center justify-center rounded-full border border-primary/20 bg-background/80 text-primary/60 shadow-lg backdrop-blur-sm transition-colors hover:border-primary/40 hover:text-primary"
+        aria-label={t("settings.open")}
+      >
+        <Settings2 className="h-[18px] w-[18px]" />
+      </PopoverTrigger>
+      <PopoverContent align="end" className="z-[120] w-56 bg-parchment font-body">
+        <p className="mb-3 text-xs tracking-widest uppercase text-ink/60">
+          {t("settings.language")}
+        </p>
+        <RadioGroup value={locale.code} onValueChange={setLocale} className="gap-2.5">
+          {locales.map((l) => (
+            <div key={l.code} className="flex items-center gap-2.5">
+              <RadioGroupItem id={`locale-${l.code}`} value={l.code} />
+              <Label htmlFor={`locale-${l.code}`} lang={l.code} dir={l.dir} className="text-base">
+                {l.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <p className="mb-3 mt-5 text-xs tracking-widest uppercase text-ink/60">
+          {t("settings.motion")}
+        </p>
+        <RadioGroup
+          value={preference}
+          onValueChange={(value) => isMotionPreference(value) && setPreference(value)}
+          className="gap-2.5"
+        >
+          {motionPreferences.map((p) => (
+            <div key={p} className="flex items-center gap-2.5">
+              <RadioGroupItem id={`motion-${p}`} value={p} />
+              <Label htmlFor={`motion-${p}`} className="text-base">
+                {t(motionLabels[p])}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <p className="mb-3 mt-5 text-xs tracking-widest uppercase text-ink/60">
+          {t("settings.effects")}
+        </p>
+        <div className="flex items-center justify-between gap-2.5">
+          <Label htmlFor="sfx" className="text-base">
+            {t("settings.sfx")}
+          </Label>
+          <Switch id="sfx" checked={!muted} onCheckedChange={(on) => setMuted(!on)} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SettingsMenu;
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import TearReplay from "@/components/openers/TearReplay";
+import { buildReplayUrl, type TearRecording } from "@/lib/recording";
+import type { CoverDesign } from "@/lib/letter";
+import type { TearProfile } from "@/lib/tear";
+import { useI18n } from "@/i18n/context";
+
+interface TearKeepsakeProps {
+  recording: TearRecording;
+  cover?: CoverDesign;
+  profile?: TearProfile;
+  // Name of the letter's tear profile, which the replay link plays back with
+  profileName?: string;
+  senderName: string;
+}
+
+// "Watch how you opened it": replays the recipient's tear and lets them send it back
+const TearKeepsake = ({
+  recording,
+  cover,
+  profile,
+  profileName,
+  senderName,
+}: TearKeepsakeProps) => {
+  const { t } = useI18n();
+  const [plays, setPlays] = useState(0);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        buildReplayUrl({ ...recording, profile: profileName, cover }),
+      );
+      toast.success(t("replay.linkCopied"));
+    } catch {
+      toast.error(t("replay.linkCopyFailed"));
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && setPlays((n) => n + 1)}>
+      <motion.div
+        className="mt-6 text-center"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 1.5, duration: 0.8 }}
+      >
+        <DialogTrigger className="font-body text-xs tracking-widest uppercase text-muted-foreground underline-offset-4 transition-colors hover:text-primary hover:underline">
+          {t("replay.watch")}
+        </DialogTrigger>
+      </motion.div>
+      <DialogContent className="bg-parchment font-body">
+        <DialogHeader>
+          <DialogTitle className="font-script text-2xl font-normal text-primary">
+            {t("replay.title")}
+          </DialogTitle>
+        </DialogHeader>
+        <TearReplay key={plays} recording={recording} cover={cover} profile={profile} />
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setPlays((n) => n + 1)}>
+            {t("replay.again")}
+          </Button>
+          <Button onClick={copyLink}>{t("replay.copyLink", { name: senderName })}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TearKeepsake;
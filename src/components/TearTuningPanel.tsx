@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { SlidersHorizontal, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TearProfile } from "@/lib/tear";
+import {
+  isBuiltInTearProfile,
+  saveTearProfile,
+  tearProfileNamed,
+  tearProfileNames,
+} from "@/lib/tearProfiles";
+
+interface Knob {
+  key: keyof TearProfile;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const knobs: Knob[] = [
+  { key: "pointSpacing", label: "Point spacing", min: 0.002, max: 0.05, step: 0.001 },
+  { key: "reach", label: "Reach (share of diagonal)", min: 0.3, max: 1, step: 0.01 },
+  { key: "edgeMargin", label: "Edge margin", min: 0, max: 0.15, step: 0.005 },
+  { key: "edgeProgress", label: "Finish at edge after", min: 0.3, max: 1, step: 0.01 },
+  { key: "releaseProgress", label: "Finish on release after", min: 0.3, max: 1, step: 0.01 },
+  { key: "releaseEdgeMargin", label: "Release edge margin", min: 0, max: 0.15, step: 0.005 },
+  {
+    key: "releaseEdgeProgress",
+    label: "Finish on release near edge after",
+    min: 0.3,
+    max: 1,
+    step: 0.01,
+  },
+  { key: "jaggedness", label: "Jaggedness", min: 0, max: 0.04, step: 0.001 },
+  { key: "jaggednessGrowth", label: "Jaggedness growth", min: 0, max: 0.03, step: 0.001 },
+  { key: "fibers", label: "Fibers", min: 0, max: 120, step: 1 },
+];
+
+interface TearTuningPanelProps {
+  profile: TearProfile;
+  // The letter's own profile name, which the panel starts from
+  name: string;
+  onChange: (profile: TearProfile) => void;
+}
+
+// Dev-only sliders for the tear's feel. Sits beside the cover rather than over it, so
+// each change can be tried straight away; profiles are saved by name in this browser.
+const TearTuningPanel = ({ profile, name: initialName, onChange }: TearTuningPanelProps) => {
+  const [open, setOpen] = useState(false);
+  // Built-in profiles can't be saved over, so tuning one starts a new name
+  const nameFor = (profileName: string) => (isBuiltInTearProfile(profileName) ? "" : profileName);
+  const [name, setName] = useState(() => nameFor(initialName));
+  const trimmed = name.trim();
+  const builtIn = isBuiltInTearProfile(trimmed);
+
+  const load = (next: string) => {
+    setName(nameFor(next));
+    onChange(tearProfileNamed(next));
+  };
+
+  const save = () => {
+    if (!trimmed || !saveTearProfile(trimmed, profile)) return;
+    toast.success(`Saved "${trimmed}"`, {
+      description: `Use it with "tear-profile: ${trimmed}" in a letter's front matter.`,
+    });
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(profile, null, 2));
+      toast.success("Copied the profile");
+    } catch {
+      toast.error("Couldn't copy the profile");
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="fixed bottom-4 start-4 z-[120] bg-parchment font-body"
+        onClick={() => setOpen(true)}
+      >
+        <SlidersHorizontal />
+        Tear tuning
+      </Button>
+    );
+  }
+
+  return (
+    <aside
+      aria-label="Tear tuning"
+      className="fixed bottom-4 start-4 z-[120] max-h-[80vh] w-72 space-y-4 overflow-y-auto rounded-md border bg-parchment p-4 font-body text-sm shadow-lg"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium">Tear tuning</h2>
+        <Button variant="ghost" size="icon" onClick={() => setOpen(false)} aria-label="Close">
+          <X />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tear-profile">Start from</Label>
+        <Select onValueChange={load}>
+          <SelectTrigger id="tear-profile">
+            <SelectValue placeholder="Pick a profile" />
+          </SelectTrigger>
+          <SelectContent className="z-[130]">
+            {tearProfileNames().map((profileName) => (
+              <SelectItem key={profileName} value={profileName}>
+                {profileName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {knobs.map(({ key, label, min, max, step }) => (
+        <div key={key} className="space-y-2">
+          <div className="flex justify-between gap-2">
+            <Label>{label}</Label>
+            <span className="tabular-nums text-muted-foreground">{profile[key]}</span>
+          </div>
+          <Slider
+            min={min}
+            max={max}
+            step={step}
+            value={[profile[key]]}
+            onValueChange={([value]) => onChange({ ...profile, [key]: value })}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label htmlFor="tear-profile-name">Name</Label>
+        <div className="flex gap-2">
+          <Input
+            id="tear-profile-name"
+            placeholder="e.g. feathery"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button onClick={save} disabled={!trimmed || builtIn}>
+            Save
+          </Button>
+        </div>
+        {builtIn && (
+          <p className="text-muted-foreground">
+            "{trimmed}" is built in; save your changes under another name.
+          </p>
+        )}
+        <Button variant="outline" className="w-full" onClick={copy}>
+          Copy as JSON
+        </Button>
+      </div>
+    </aside>
+  );
+};
+
+export default TearTuningPanel;
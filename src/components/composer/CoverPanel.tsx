@@ -0,0 +1,265 @@
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import WaxSeal from "@/components/openers/WaxSeal";
+import PaperTexture from "@/components/openers/PaperTexture";
+import { coverPalette } from "@/lib/cover";
+import {
+  MAX_EMBLEM_LENGTH,
+  coverGradients,
+  paperKinds,
+  type CoverDesign,
+  type CoverGradient,
+  type PaperKind,
+  type SealContent,
+} from "@/lib/letter";
+
+// Emblems are scaled down to this many pixels square before going into the letter
+const EMBLEM_SIZE = 96;
+
+const gradientLabels: Record<CoverGradient, string> = {
+  diagonal: "Diagonal",
+  vertical: "Top to bottom",
+  radial: "Spotlight",
+  flat: "Flat",
+};
+
+const paperLabels: Record<PaperKind, string> = {
+  handmade: "Handmade",
+  kraft: "Kraft",
+  linen: "Linen",
+};
+
+const sealLabels: Record<SealContent["type"], string> = {
+  words: "The opener's words",
+  monogram: "Monogram",
+  emblem: "Emblem",
+};
+
+const sealTypes: SealContent["type"][] = ["words", "monogram", "emblem"];
+
+// A Select hands back a plain string; check it's one of the options it was given
+const isOneOf = <T extends string>(options: readonly T[], value: string): value is T =>
+  options.some((option) => option === value);
+
+// "Ada Lovelace" → "AL"
+function initialsOf(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 3)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+}
+
+// Crop an uploaded picture to a small square so it fits in a share link
+async function loadEmblem(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = EMBLEM_SIZE;
+  canvas.height = EMBLEM_SIZE;
+  canvas
+    .getContext("2d")!
+    .drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      EMBLEM_SIZE,
+      EMBLEM_SIZE,
+    );
+  bitmap.close();
+  // Browsers without WebP encoding hand back a PNG instead
+  return canvas.toDataURL("image/webp", 0.8);
+}
+
+interface CoverPanelProps {
+  design: CoverDesign;
+  senderName: string;
+  onChange: (design: CoverDesign) => void;
+}
+
+const CoverPanel = ({ design, senderName, onChange }: CoverPanelProps) => {
+  const palette = coverPalette(design);
+  const content = design.seal.content;
+
+  const update = (patch: Partial<CoverDesign>) => onChange({ ...design, ...patch });
+  const updateSeal = (patch: Partial<CoverDesign["seal"]>) =>
+    update({ seal: { ...design.seal, ...patch } });
+
+  const changeSealType = (type: SealContent["type"]) => {
+    if (type === "monogram") {
+      updateSeal({ content: { type, initials: initialsOf(senderName) || "A" } });
+    } else if (type === "emblem") {
+      updateSeal({ content: { type, image: "" } });
+    } else {
+      updateSeal({ content: { type } });
+    }
+  };
+
+  const uploadEmblem = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const image = await loadEmblem(file);
+      if (image.length > MAX_EMBLEM_LENGTH) {
+        toast.error("That picture is too detailed", {
+          description: "Try a simpler emblem with fewer colors.",
+        });
+        return;
+      }
+      updateSeal({ content: { type: "emblem", image } });
+    } catch {
+      toast.error("Couldn't read that picture", { description: "Try a PNG or JPEG file." });
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Small swatch of the cover as it will look */}
+      <div
+        className="relative flex h-40 items-center justify-center overflow-hidden rounded-sm"
+        style={{ background: palette.background }}
+      >
+        <PaperTexture palette={palette} />
+        <div className="absolute inset-0" style={{ background: palette.vignette }} />
+        <div className="relative">
+          <WaxSeal lines={["Tear", "me"]} seal={palette.seal} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="cover-color">Paper color</Label>
+          <Input
+            id="cover-color"
+            type="color"
+            className="h-10 p-1"
+            value={design.color}
+            onChange={(e) => update({ color: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="seal-color">Wax color</Label>
+          <Input
+            id="seal-color"
+            type="color"
+            className="h-10 p-1"
+            value={design.seal.color}
+            onChange={(e) => updateSeal({ color: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cover-gradient">Shading</Label>
+        <Select
+          value={design.gradient}
+          onValueChange={(gradient) => isOneOf(coverGradients, gradient) && update({ gradient })}
+        >
+          <SelectTrigger id="cover-gradient">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {coverGradients.map((gradient) => (
+              <SelectItem key={gradient} value={gradient}>
+                {gradientLabels[gradient]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cover-paper">Paper</Label>
+        <Select
+          value={design.paper}
+          onValueChange={(paper) => isOneOf(paperKinds, paper) && update({ paper })}
+        >
+          <SelectTrigger id="cover-paper">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {paperKinds.map((paper) => (
+              <SelectItem key={paper} value={paper}>
+                {paperLabels[paper]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Paper texture {Math.round(design.textureDensity * 100)}%</Label>
+        <Slider
+          min={0}
+          max={1}
+          step={0.05}
+          value={[design.textureDensity]}
+          onValueChange={([textureDensity]) => update({ textureDensity })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="seal-content">Seal</Label>
+        <Select
+          value={content.type}
+          onValueChange={(type) => isOneOf(sealTypes, type) && changeSealType(type)}
+        >
+          <SelectTrigger id="seal-content">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sealTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {sealLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {content.type === "monogram" && (
+        <div className="space-y-2">
+          <Label htmlFor="seal-initials">Initials</Label>
+          <Input
+            id="seal-initials"
+            maxLength={3}
+            value={content.initials}
+            onChange={(e) =>
+              updateSeal({ content: { type: "monogram", initials: e.target.value } })
+            }
+          />
+        </div>
+      )}
+
+      {content.type === "emblem" && (
+        <div className="space-y-2">
+          <Label htmlFor="seal-emblem">Emblem picture</Label>
+          <Input
+            id="seal-emblem"
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            onChange={(e) => uploadEmblem(e.target.files?.[0])}
+          />
+          <p className="text-sm text-muted-foreground">
+            Cropped to a small square and pressed into the wax.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoverPanel;
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_SECRET_LENGTH,
+  builtInGestures,
+  isBuiltInGesture,
+  type LetterSecret,
+} from "@/lib/letter";
+import type { TearPoint } from "@/lib/tear";
+import {
+  MIN_GESTURE_SCORE,
+  isShapeLike,
+  recognize,
+  resample,
+  secretTemplates,
+} from "@/lib/unistroke";
+import { useStroke } from "@/hooks/use-stroke";
+
+// Shapes the sender draws are stored this finely, which keeps share links short
+const SHAPE_POINTS = 32;
+const MAX_SHAPES = 3;
+
+const gestureLabels: Record<string, string> = {
+  heart: "A heart",
+  star: "A star",
+};
+
+const blankSecret: LetterSecret = { gesture: "heart", message: "", gestures: [] };
+
+function toShapePoints(stroke: TearPoint[]): TearPoint[] {
+  const round = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 1000) / 1000;
+  return resample(stroke, SHAPE_POINTS).map(({ x, y }) => ({ x: round(x), y: round(y) }));
+}
+
+// A drawn shape as an SVG polyline in a 0-100 box
+const ShapePath = ({ points }: { points: TearPoint[] }) => (
+  <polyline
+    points={points.map(({ x, y }) => `${x * 100},${y * 100}`).join(" ")}
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="3"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  />
+);
+
+interface SecretPanelProps {
+  secret?: LetterSecret;
+  onChange: (secret: LetterSecret) => void;
+}
+
+const SecretPanel = ({ secret: value, onChange }: SecretPanelProps) => {
+  const secret = value ?? blankSecret;
+  const shapes = secret.gestures;
+  const [stroke, setStroke] = useState<TearPoint[] | null>(null);
+  const [shapeName, setShapeName] = useState("");
+  const pad = useStroke(setStroke);
+
+  const update = (patch: Partial<LetterSecret>) => onChange({ ...secret, ...patch });
+
+  // What the recipient's drawing would count as, so the sender can try their shape
+  const match = stroke && recognize(stroke, secretTemplates(secret));
+  const recognized = match && match.score >= MIN_GESTURE_SCORE ? match.name : null;
+  // Lines, like an "l" or a "1", can never be recognized, so they can't be added either
+  const addable = stroke && isShapeLike(stroke);
+  const name = shapeName.trim();
+  // "heart" and "star" always mean the built-in shapes
+  const nameTaken = isBuiltInGesture(name);
+
+  const addShape = () => {
+    if (!addable || !name || nameTaken) return;
+    update({
+      gestures: [...shapes.filter((s) => s.name !== name), { name, points: toShapePoints(stroke) }],
+      gesture: name,
+    });
+    setStroke(null);
+    setShapeName("");
+  };
+
+  const removeShape = (name: string) =>
+    update({
+      gestures: shapes.filter((s) => s.name !== name),
+      gesture: secret.gesture === name ? "heart" : secret.gesture,
+    });
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-muted-foreground">
+        A hidden note the recipient finds by drawing a shape on the cover or the letter instead
+        of tearing it. Leave the message empty for no secret.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="secret-message">Secret message</Label>
+        <Textarea
+          id="secret-message"
+          rows={5}
+          maxLength={MAX_SECRET_LENGTH}
+          className="font-body text-base"
+          value={secret.message}
+          onChange={(e) => update({ message: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="secret-gesture">Unlocked by drawing</Label>
+        <Select value={secret.gesture} onValueChange={(gesture) => update({ gesture })}>
+          <SelectTrigger id="secret-gesture">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {builtInGestures.map((name) => (
+              <SelectItem key={name} value={name}>
+                {gestureLabels[name]}
+              </SelectItem>
+            ))}
+            {shapes.map(({ name }) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {shapes.length > 0 && (
+        <ul className="space-y-2">
+          {shapes.map(({ name, points }) => (
+            <li key={name} className="flex items-center gap-3 rounded-sm border p-2 text-sm">
+              <svg viewBox="-5 -5 110 110" className="h-10 w-10 text-primary" aria-hidden>
+                <ShapePath points={points} />
+              </svg>
+              <span className="flex-1">{name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeShape(name)}
+                aria-label={`Remove ${name}`}
+              >
+                <Trash2 />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Label>Draw a shape</Label>
+        <div
+          {...pad}
+          className="relative aspect-square w-full max-w-64 touch-none rounded-sm border bg-parchment"
+        >
+          {stroke && (
+            <svg viewBox="0 0 100 100" className="absolute inset-0 text-primary" aria-hidden>
+              <ShapePath points={stroke} />
+            </svg>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {!stroke
+            ? "Draw in one stroke to try a shape, or to add your own such as your initials."
+            : !addable
+              ? "That's too close to a straight line to recognize; try a rounder shape."
+              : recognized
+                ? `Looks like ${gestureLabels[recognized]?.toLowerCase() ?? `"${recognized}"`}.`
+                : "That doesn't match any shape yet."}
+        </p>
+        {shapes.length < MAX_SHAPES && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name it, e.g. initials"
+              maxLength={24}
+              value={shapeName}
+              onChange={(e) => setShapeName(e.target.value)}
+            />
+            <Button onClick={addShape} disabled={!addable || !name || nameTaken}>
+              Add shape
+            </Button>
+          </div>
+        )}
+        {nameTaken && (
+          <p className="text-sm text-muted-foreground">
+            "{name}" is a built-in shape; give yours another name.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecretPanel;
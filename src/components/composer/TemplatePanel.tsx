@@ -0,0 +1,84 @@
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { templateFields, type LetterTemplate } from "@/lib/templates";
+
+interface TemplatePanelProps {
+  templates: LetterTemplate[];
+  template: LetterTemplate;
+  values: Record<string, string>;
+  missing: string[];
+  canUse: boolean;
+  onTemplateChange: (id: string) => void;
+  onValueChange: (key: string, value: string) => void;
+  onUse: () => void;
+}
+
+const TemplatePanel = ({
+  templates,
+  template,
+  values,
+  missing,
+  canUse,
+  onTemplateChange,
+  onValueChange,
+  onUse,
+}: TemplatePanelProps) => (
+  <div className="space-y-5">
+    <div className="space-y-2">
+      <Label htmlFor="template">Template</Label>
+      <Select value={template.id} onValueChange={onTemplateChange}>
+        <SelectTrigger id="template">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((t) => (
+            <SelectItem key={t.id} value={t.id}>
+              {t.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground">{template.description}</p>
+    </div>
+
+    {templateFields(template).map((field) => (
+      <div key={field.key} className="space-y-2">
+        <Label htmlFor={`template-${field.key}`}>{field.label}</Label>
+        <Input
+          id={`template-${field.key}`}
+          type={field.type ?? "text"}
+          placeholder={field.hint}
+          value={values[field.key] ?? ""}
+          onChange={(e) => onValueChange(field.key, e.target.value)}
+          aria-invalid={missing.includes(field.key)}
+        />
+      </div>
+    ))}
+
+    {missing.length > 0 && (
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Unfilled placeholders</AlertTitle>
+        <AlertDescription>
+          {missing.map((key) => `{{${key}}}`).join(", ")}
+        </AlertDescription>
+      </Alert>
+    )}
+
+    <Button className="w-full" onClick={onUse} disabled={!canUse}>
+      Edit this letter
+    </Button>
+  </div>
+);
+
+export default TemplatePanel;
@@ -0,0 +1,18 @@
+interface AssistedOpenButtonProps {
+  label: string;
+  onOpen: () => void;
+}
+
+// For anyone who can't drag: read out by screen readers and shown on keyboard focus
+const AssistedOpenButton = ({ label, onOpen }: AssistedOpenButtonProps) => (
+  <button
+    type="button"
+    onClick={onOpen}
+    onPointerDown={(e) => e.stopPropagation()}
+    className="sr-only rounded-full bg-parchment px-3 py-1.5 font-body text-xs text-ink shadow focus-visible:not-sr-only focus-visible:absolute focus-visible:start-3 focus-visible:top-3 focus-visible:z-30 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+  >
+    {label}
+  </button>
+);
+
+export default AssistedOpenButton;
@@ -0,0 +1,35 @@
+import { motion } from "framer-motion";
+import { MoveRight } from "lucide-react";
+import { useMotion } from "@/motion/context";
+
+interface CoverHintProps {
+  label: string;
+  hidden: boolean;
+}
+
+// Pulsing instruction along the bottom of the cover
+const CoverHint = ({ label, hidden }: CoverHintProps) => {
+  const { reduceMotion } = useMotion();
+
+  return (
+    <motion.div
+      className="pointer-events-none absolute bottom-6 left-0 right-0 z-20 flex items-center justify-center gap-2"
+      animate={{
+        opacity: hidden ? 0 : reduceMotion ? 0.5 : [0.3, 0.6, 0.3],
+      }}
+      transition={{
+        duration: 2.5,
+        repeat: reduceMotion ? 0 : Infinity,
+        ease: "easeInOut",
+      }}
+    >
+      <span className="font-body text-xs tracking-[0.15em] uppercase text-primary-foreground/40 sm:text-sm">
+        {label}
+      </span>
+      {/* Points along the reading direction, so it flips for RTL */}
+      <MoveRight className="h-3.5 w-3.5 text-primary-foreground/40 rtl:-scale-x-100 sm:h-4 sm:w-4" />
+    </motion.div>
+  );
+};
+
+export default CoverHint;
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence, animate, useMotionValue, useTransform } from "framer-motion";
+import { coverPalette } from "@/lib/cover";
+import { useI18n } from "@/i18n/context";
+import { useMotion } from "@/motion/context";
+import WaxSeal from "./WaxSeal";
+import CoverHint from "./CoverHint";
+import PaperTexture from "./PaperTexture";
+import type { OpenerProps } from "./types";
+
+type Phase = "sealed" | "opening" | "sliding";
+
+// Flap height as a share of the envelope; its tip is where the seal sits
+const FLAP_HEIGHT = 0.58;
+// Past this angle a released flap keeps opening instead of springing shut
+const OPEN_ANGLE = 80;
+// Pointer travel (px) before a press on the flap counts as a drag
+const DRAG_SLOP = 6;
+// Depth offsets (px) that keep the layers sorted while the flap swings through 3D:
+// the closed flap sits in front of the sheet, and once flipped over it ends up behind it
+const SHEET_Z = 1;
+const POCKET_Z = 2;
+const FLAP_Z = 3;
+
+const FLAP_CLIP = "polygon(0 0, 100% 0, 50% 100%)";
+const POCKET_CLIP = `polygon(0 0, 50% ${FLAP_HEIGHT * 100}%, 100% 0, 100% 100%, 0 100%)`;
+
+// Seal, flap and a letter sliding out of the pocket
+const EnvelopeOpener = ({ cover, revealed, onProgress, onComplete }: OpenerProps) => {
+  const { t } = useI18n();
+  const palette = useMemo(() => coverPalette(cover), [cover]);
+  const { reduceMotion } = useMotion();
+  const flapRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startY: number; startAngle: number; moved: boolean } | null>(null);
+  const completedRef = useRef(false);
+  const [phase, setPhase] = useState<Phase>("sealed");
+  const [isDragging, setIsDragging] = useState(false);
+
+  const flapAngle = useMotionValue(0);
+  // How far the sheet has risen out of the pocket, in % of its height
+  const sheetLift = useMotionValue(0);
+  const sheetY = useTransform(sheetLift, (lift) => `${-lift}%`);
+
+  useEffect(() => flapAngle.on("change", (angle) => onProgress?.((angle / 180) * 0.5)), [
+    flapAngle,
+    onProgress,
+  ]);
+
+  const finish = useCallback(() => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    onProgress?.(1);
+    onComplete();
+  }, [onProgress, onComplete]);
+
+  // Flap swings open, then the sheet rises out of the pocket and settles back down
+  const open = useCallback(() => {
+    if (phase !== "sealed") return;
+    setPhase("opening");
+    // Skip the flap and the slide; the envelope just fades into the letter
+    if (reduceMotion) {
+      finish();
+      return;
+    }
+    animate(flapAngle, 180, {
+      duration: 0.7 * (1 - flapAngle.get() / 180) + 0.2,
+      ease: [0.4, 0, 0.2, 1],
+      onComplete: () => {
+        setPhase("sliding");
+        animate(sheetLift, [0, 45, 0], {
+          duration: 1.4,
+          times: [0, 0.55, 1],
+          ease: "easeInOut",
+          onComplete: finish,
+        });
+      },
+    });
+  }, [phase, reduceMotion, flapAngle, sheetLift, finish]);
+
+  const handleFlapPointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (phase !== "sealed") return;
+      dragRef.current = { startY: e.clientY, startAngle: flapAngle.get(), moved: false };
+      setIsDragging(true);
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    [phase, flapAngle],
+  );
+
+  const handleFlapPointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      const flap = flapRef.current;
+      if (!drag || !flap) return;
+      const dy = drag.startY - e.clientY;
+      if (!drag.moved && Math.abs(dy) < DRAG_SLOP) return;
+      drag.moved = true;
+      // Dragging up by the flap's own height swings it all the way over
+      const travel = flap.getBoundingClientRect().height || 1;
+      flapAngle.set(Math.max(0, Math.min(180, drag.startAngle + (dy / travel) * 180)));
+    },
+    [flapAngle],
+  );
+
+  const handleFlapPointerUp = useCallback(() => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    setIsDragging(false);
+    if (!drag.moved || flapAngle.get() > OPEN_ANGLE) {
+      open();
+    } else {
+      animate(flapAngle, 0, { type: "spring", stiffness: 260, damping: 18 });
+    }
+  }, [flapAngle, open]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        open();
+      }
+    },
+    [open],
+  );
+
+  const sealBroken = phase !== "sealed" || isDragging;
+
+  return (
+    <AnimatePresence>
+      {!revealed && (
+        <motion.div
+          role="button"
+          tabIndex={0}
+          aria-label={t("letter.envelopeLabel")}
+          aria-disabled={phase !== "sealed"}
+          onKeyDown={handleKeyDown}
+          onClick={phase === "sealed" && !isDragging ? open : undefined}
+          className="absolute inset-0 z-10 cursor-pointer select-none rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-4"
+          style={{ transformStyle: "preserve-3d" }}
+          exit={{ opacity: 0, transition: { duration: 0.6, ease: "easeOut" } }}
+        >
+          {/* Back of the envelope, seen through the open mouth */}
+          <div
+            className="absolute inset-0 rounded-sm"
+            style={{ background: palette.inside }}
+          />
+
+          {/* Stand-in sheet that slides out, then fades into the real letter */}
+          <motion.div
+            className="absolute inset-x-[5%] top-[6%] bottom-[3%] z-10 rounded-sm bg-parchment"
+            style={{
+              y: sheetY,
+              z: SHEET_Z,
+              boxShadow: `0 -6px 24px -12px ${palette.dropShadow}`,
+            }}
+          >
+            <div className="mx-auto mt-[8%] h-px w-1/3 bg-primary/20" />
+            <div className="mx-auto mt-3 h-px w-1/2 bg-primary/10" />
+          </motion.div>
+
+          {/* Pocket: the front of the envelope with a V-shaped mouth */}
+          <motion.div
+            className="absolute inset-0 z-20 overflow-hidden rounded-sm"
+            style={{ z: POCKET_Z, clipPath: POCKET_CLIP, background: palette.background }}
+            animate={phase === "sliding" ? { y: "12%" } : { y: "0%" }}
+            transition={{ delay: 0.6, duration: 0.8, ease: "easeInOut" }}
+          >
+            <PaperTexture palette={palette} />
+            <div className="absolute inset-0" style={{ background: palette.vignette }} />
+            <svg
+              className="pointer-events-none absolute inset-0 h-full w-full"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+            >
+              <path
+                d="M0,100 L50,52 L100,100"
+                fill="none"
+                stroke={palette.crease}
+                strokeWidth="0.4"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          </motion.div>
+
+          {/* Flap, hinged along the top edge; it lifts toward the viewer as it opens */}
+          <motion.div
+            ref={flapRef}
+            className="absolute inset-x-0 top-0"
+            style={{
+              height: `${FLAP_HEIGHT * 100}%`,
+              rotateX: flapAngle,
+              transformOrigin: "top",
+              transformStyle: "preserve-3d",
+              touchAction: "none",
+            }}
+            onPointerDown={handleFlapPointerDown}
+            onPointerMove={handleFlapPointerMove}
+            onPointerUp={handleFlapPointerUp}
+            onPointerCancel={handleFlapPointerUp}
+            // Pointer up already handled the press; don't let it reach the envelope too
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div
+              className="absolute inset-0 overflow-hidden"
+              style={{
+                clipPath: FLAP_CLIP,
+                background: palette.background,
+                backfaceVisibility: "hidden",
+                transform: `translateZ(${FLAP_Z}px)`,
+                filter: `drop-shadow(0 4px 6px ${palette.dropShadow})`,
+              }}
+            >
+              <PaperTexture palette={palette} />
+            </div>
+            <div
+              className="absolute inset-0"
+              style={{
+                clipPath: FLAP_CLIP,
+                background: palette.inside,
+                backfaceVisibility: "hidden",
+                transform: `translateZ(${FLAP_Z}px) rotateX(180deg)`,
+              }}
+            />
+
+            {/* Seal over the flap's tip; it cracks in two when broken */}
+            <div
+              className="pointer-events-none absolute left-1/2 top-full"
+              style={{
+                backfaceVisibility: "hidden",
+                transform: `translate(-50%, -50%) translateZ(${FLAP_Z + 1}px)`,
+              }}
+            >
+              {[0, 1].map((half) => (
+                <motion.div
+                  key={half}
+                  className={half === 0 ? "" : "absolute inset-0"}
+                  style={{
+                    clipPath: half === 0 ? "inset(0 50% 0 0)" : "inset(0 0 0 50%)",
+                  }}
+                  animate={
+                    sealBroken
+                      ? {
+                          x: half === 0 ? -10 : 10,
+                          y: 14,
+                          rotate: half === 0 ? -14 : 12,
+                          opacity: 0,
+                        }
+                      : { x: 0, y: 0, rotate: 0, opacity: 1 }
+                  }
+                  transition={{ duration: 0.45, ease: "easeOut" }}
+                >
+                  <WaxSeal lines={[t("letter.envelopeSeal")]} seal={palette.seal} />
+                </motion.div>
+              ))}
+            </div>
+          </motion.div>
+
+          <CoverHint label={t("letter.envelopeHint")} hidden={sealBroken} />
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default EnvelopeOpener;
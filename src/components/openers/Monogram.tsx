@@ -0,0 +1,61 @@
+import { useId } from "react";
+
+interface MonogramProps {
+  initials: string;
+  // Wax color the letters are pressed into
+  color: string;
+}
+
+// Initials pressed into the wax: lit from the top left so the letters and the
+// ring around them look raised out of the seal
+const Monogram = ({ initials, color }: MonogramProps) => {
+  const emboss = `monogram-emboss-${useId()}`;
+  const letters = initials.toUpperCase();
+  const fontSize = letters.length === 1 ? 54 : letters.length === 2 ? 42 : 32;
+
+  return (
+    <svg viewBox="0 0 100 100" className="h-[85%] w-[85%]" aria-hidden>
+      <defs>
+        <filter id={emboss} x="-20%" y="-20%" width="140%" height="140%">
+          <feGaussianBlur in="SourceAlpha" stdDeviation="1.2" result="blur" />
+          <feSpecularLighting
+            in="blur"
+            surfaceScale="3"
+            specularConstant="0.9"
+            specularExponent="16"
+            lightingColor="#fff"
+            result="light"
+          >
+            <fePointLight x="-40" y="-60" z="90" />
+          </feSpecularLighting>
+          <feComposite in="light" in2="SourceAlpha" operator="in" result="lit" />
+          <feOffset in="SourceAlpha" dx="1" dy="1.5" result="drop" />
+          <feFlood floodColor="#000" floodOpacity="0.35" />
+          <feComposite in2="drop" operator="in" result="shadow" />
+          <feMerge>
+            <feMergeNode in="shadow" />
+            <feMergeNode in="SourceGraphic" />
+            <feMergeNode in="lit" />
+          </feMerge>
+        </filter>
+      </defs>
+      <g filter={`url(#${emboss})`} fill={color} stroke={color}>
+        <circle cx="50" cy="50" r="43" fill="none" strokeWidth="3" />
+        <circle cx="50" cy="50" r="37" fill="none" strokeWidth="1" strokeDasharray="1 3" />
+        <text
+          x="50"
+          y="50"
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontSize={fontSize}
+          strokeWidth="0.5"
+          className="font-script"
+        >
+          {letters}
+        </text>
+      </g>
+    </svg>
+  );
+};
+
+export default Monogram;
@@ -0,0 +1,33 @@
+import { useMemo } from "react";
+import { DEFAULT_COVER_PALETTE, type CoverPalette } from "@/lib/cover";
+import { cn } from "@/lib/utils";
+import { paperTileUrl } from "./cover";
+
+interface PaperTextureProps {
+  palette?: CoverPalette;
+  // Grain opacity, when it should differ from the cover's (e.g. on the letter itself)
+  strength?: number;
+  className?: string;
+}
+
+// The paper's generated grain, tiled over the surface it sits on
+const PaperTexture = ({
+  palette = DEFAULT_COVER_PALETTE,
+  strength = palette.textureStrength,
+  className,
+}: PaperTextureProps) => {
+  const url = useMemo(
+    () => (strength > 0 ? paperTileUrl(palette.paper, strength) : null),
+    [palette.paper, strength],
+  );
+  if (!url) return null;
+
+  return (
+    <div
+      className={cn("pointer-events-none absolute inset-0", className)}
+      style={{ backgroundImage: `url(${url})` }}
+    />
+  );
+};
+
+export default PaperTexture;
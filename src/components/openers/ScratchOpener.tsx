@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { seededRandom } from "@/lib/random";
+import { coverPalette } from "@/lib/cover";
+import { useI18n } from "@/i18n/context";
+import WaxSeal from "./WaxSeal";
+import CoverHint from "./CoverHint";
+import AssistedOpenButton from "./AssistedOpenButton";
+import { paintCover } from "./cover";
+import type { OpenerProps } from "./types";
+
+const DEFAULT_THRESHOLD = 0.55;
+// Brush radius as a share of the cover width
+const BRUSH_RADIUS = 0.045;
+// Check every Nth pixel in each direction when measuring the cleared area
+const SAMPLE_STEP = 6;
+const MEASURE_INTERVAL_MS = 120;
+
+// Rub the cover away like a scratch card
+const ScratchOpener = ({ config, cover, revealed, onProgress, onComplete }: OpenerProps) => {
+  const { t } = useI18n();
+  const palette = useMemo(() => coverPalette(cover), [cover]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const lastMeasureRef = useRef(0);
+  const scratchedRef = useRef(false);
+  const completedRef = useRef(false);
+  const grainRef = useRef(seededRandom(2024));
+  const [isScratching, setIsScratching] = useState(false);
+  const [cleared, setCleared] = useState(0);
+
+  const threshold = config?.type === "scratch" ? config.threshold : DEFAULT_THRESHOLD;
+
+  // Paint the cover at device resolution; repaint on resize until scratching starts
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const paint = () => {
+      const ctx = canvas.getContext("2d");
+      if (!ctx || scratchedRef.current) return;
+      const dpr = window.devicePixelRatio || 1;
+      const { width, height } = canvas.getBoundingClientRect();
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      paintCover(ctx, width, height, palette);
+    };
+
+    paint();
+    const observer = new ResizeObserver(paint);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [palette]);
+
+  useEffect(() => {
+    onProgress?.(Math.min(cleared / threshold, 1));
+  }, [cleared, threshold, onProgress]);
+
+  const measure = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || canvas.width === 0) return;
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let total = 0;
+    let clear = 0;
+    for (let y = 0; y < canvas.height; y += SAMPLE_STEP) {
+      for (let x = 0; x < canvas.width; x += SAMPLE_STEP) {
+        total++;
+        if (data[(y * canvas.width + x) * 4 + 3] < 128) clear++;
+      }
+    }
+    const share = clear / total;
+    setCleared(share);
+    if (share >= threshold && !completedRef.current) {
+      completedRef.current = true;
+      onComplete();
+    }
+  }, [threshold, onComplete]);
+
+  // Coin-edge brush: a core disc plus ragged specks so the scratch edge looks gritty
+  const scratchTo = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const point = { x: clientX - rect.left, y: clientY - rect.top };
+    const from = lastPointRef.current ?? point;
+    const radius = rect.width * BRUSH_RADIUS;
+    const rng = grainRef.current;
+
+    ctx.save();
+    ctx.globalCompositeOperation = "destination-out";
+    const distance = Math.hypot(point.x - from.x, point.y - from.y);
+    const steps = Math.max(1, Math.ceil(distance / (radius * 0.3)));
+    for (let i = 0; i <= steps; i++) {
+      const x = from.x + ((point.x - from.x) * i) / steps;
+      const y = from.y + ((point.y - from.y) * i) / steps;
+      ctx.globalAlpha = 1;
+      ctx.beginPath();
+      ctx.arc(x, y, radius * 0.75, 0, Math.PI * 2);
+      ctx.fill();
+      for (let g = 0; g < 6; g++) {
+        const angle = rng() * Math.PI * 2;
+        const reach = radius * (0.7 + rng() * 0.45);
+        ctx.globalAlpha = 0.4 + rng() * 0.6;
+        ctx.beginPath();
+        ctx.arc(
+          x + Math.cos(angle) * reach,
+          y + Math.sin(angle) * reach,
+          radius * (0.08 + rng() * 0.14),
+          0,
+          Math.PI * 2,
+        );
+        ctx.fill();
+      }
+    }
+    ctx.restore();
+    lastPointRef.current = point;
+  }, []);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (revealed) return;
+      lastPointRef.current = null;
+      scratchedRef.current = true;
+      setIsScratching(true);
+      scratchTo(e.clientX, e.clientY);
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    [revealed, scratchTo],
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (!isScratching || revealed) return;
+      scratchTo(e.clientX, e.clientY);
+      // Reading pixels back is costly, so only measure every so often mid-stroke
+      if (e.timeStamp - lastMeasureRef.current > MEASURE_INTERVAL_MS) {
+        lastMeasureRef.current = e.timeStamp;
+        measure();
+      }
+    },
+    [isScratching, revealed, scratchTo, measure],
+  );
+
+  const handlePointerUp = useCallback(() => {
+    if (!isScratching) return;
+    setIsScratching(false);
+    lastPointRef.current = null;
+    if (!revealed) measure();
+  }, [isScratching, revealed, measure]);
+
+  const handleAssistedOpen = useCallback(() => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    onComplete();
+  }, [onComplete]);
+
+  const progress = Math.min(cleared / threshold, 1);
+
+  return (
+    <>
+      <AnimatePresence>
+        {!revealed && (
+          <motion.div
+            className="absolute inset-0 z-10 select-none overflow-hidden rounded-sm"
+            exit={{
+              opacity: 0,
+              transition: { duration: 0.6, ease: "easeOut" },
+            }}
+          >
+            <canvas
+              ref={canvasRef}
+              className="absolute inset-0 h-full w-full"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              style={{ touchAction: "none", cursor: "crosshair" }}
+            />
+
+            <motion.div
+              className="pointer-events-none absolute inset-0 z-20 flex items-center justify-center"
+              animate={{ opacity: 1 - progress * 2, scale: 1 - progress * 0.1 }}
+            >
+              <WaxSeal lines={[t("letter.scratchSeal")]} seal={palette.seal} />
+            </motion.div>
+
+            <CoverHint label={t("letter.scratchHint")} hidden={isScratching || cleared > 0} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {!revealed && (
+        <AssistedOpenButton label={t("letter.openWithoutScratching")} onOpen={handleAssistedOpen} />
+      )}
+    </>
+  );
+};
+
+export default ScratchOpener;
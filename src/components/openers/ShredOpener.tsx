@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  jaggedTearLine,
+  pointsToClipPath,
+  pointsToSvgPath,
+  polygonCentroid,
+  type TearPoint,
+} from "@/lib/tear";
+import {
+  createFragmentTree,
+  detachedArea,
+  fragmentAt,
+  leafFragments,
+  tearFragment,
+  type Fragment,
+} from "@/lib/shred";
+import { coverPalette, type CoverPalette } from "@/lib/cover";
+import { useI18n } from "@/i18n/context";
+import { useMotion } from "@/motion/context";
+import PaperTexture from "./PaperTexture";
+import WaxSeal from "./WaxSeal";
+import CoverHint from "./CoverHint";
+import AssistedOpenButton from "./AssistedOpenButton";
+import type { OpenerProps } from "./types";
+
+const DEFAULT_THRESHOLD = 0.6;
+// Minimum pointer travel (normalized) between recorded stroke points
+const MIN_STEP = 0.012;
+
+// Tear the cover several times; pieces that come loose fall away
+const ShredOpener = ({ config, cover, revealed, onProgress, onComplete }: OpenerProps) => {
+  const { t } = useI18n();
+  const palette = useMemo(() => coverPalette(cover), [cover]);
+  const coverRef = useRef<HTMLDivElement>(null);
+  const completedRef = useRef(false);
+  const [tree, setTree] = useState<Fragment>(createFragmentTree);
+  // The stroke being drawn, collected per move and shown once a frame; re-rendering
+  // every piece on each pointer move would stall the drag
+  const strokeRef = useRef<TearPoint[]>([]);
+  const strokeFrameRef = useRef<number | null>(null);
+  const [stroke, setStroke] = useState<TearPoint[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const threshold = config?.type === "shred" ? config.threshold : DEFAULT_THRESHOLD;
+  const leaves = useMemo(() => leafFragments(tree), [tree]);
+  const gone = useMemo(() => detachedArea(tree), [tree]);
+  const progress = Math.min(gone / threshold, 1);
+
+  useEffect(
+    () => () => {
+      if (strokeFrameRef.current !== null) cancelAnimationFrame(strokeFrameRef.current);
+    },
+    [],
+  );
+
+  const showStroke = useCallback(() => {
+    strokeFrameRef.current = null;
+    setStroke([...strokeRef.current]);
+  }, []);
+
+  const scheduleStroke = useCallback(() => {
+    if (strokeFrameRef.current === null) strokeFrameRef.current = requestAnimationFrame(showStroke);
+  }, [showStroke]);
+
+  useEffect(() => {
+    onProgress?.(progress);
+    if (progress >= 1 && !completedRef.current) {
+      completedRef.current = true;
+      onComplete();
+    }
+  }, [progress, onProgress, onComplete]);
+
+  const getNormalizedPos = useCallback((clientX: number, clientY: number): TearPoint | null => {
+    const el = coverRef.current;
+    if (!el) return null;
+    const rect = el.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)),
+    };
+  }, []);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (revealed) return;
+      const pos = getNormalizedPos(e.clientX, e.clientY);
+      // Only start on paper that's still hanging
+      if (!pos || !fragmentAt(tree, pos)) return;
+      setIsDragging(true);
+      strokeRef.current = [pos];
+      scheduleStroke();
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    [revealed, tree, getNormalizedPos, scheduleStroke],
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (!isDragging) return;
+      const pos = getNormalizedPos(e.clientX, e.clientY);
+      if (!pos) return;
+      const points = strokeRef.current;
+      const last = points[points.length - 1];
+      if (Math.hypot(pos.x - last.x, pos.y - last.y) <= MIN_STEP) return;
+      points.push(pos);
+      scheduleStroke();
+    },
+    [isDragging, getNormalizedPos, scheduleStroke],
+  );
+
+  const handlePointerUp = useCallback(() => {
+    if (!isDragging) return;
+    setIsDragging(false);
+    if (strokeFrameRef.current !== null) cancelAnimationFrame(strokeFrameRef.current);
+    strokeFrameRef.current = null;
+    const points = strokeRef.current;
+    strokeRef.current = [];
+    setTree((prev) => tearFragment(prev, points));
+    setStroke([]);
+  }, [isDragging]);
+
+  const handleAssistedOpen = useCallback(() => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    onComplete();
+  }, [onComplete]);
+
+  const strokePoints = useMemo(() => jaggedTearLine(stroke, MIN_STEP), [stroke]);
+
+  return (
+    <>
+      <AnimatePresence>
+        {!revealed && (
+          <motion.div
+            ref={coverRef}
+            className="absolute inset-0 z-10 select-none rounded-sm"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            exit={{ opacity: 0, transition: { duration: 0.6, ease: "easeOut" } }}
+            style={{ touchAction: "none", cursor: isDragging ? "grabbing" : "grab" }}
+          >
+            {leaves.map((fragment) => (
+              <FragmentPiece
+                key={fragment.id}
+                fragment={fragment}
+                seal={[t("letter.sealTop"), t("letter.sealBottom")]}
+                palette={palette}
+              />
+            ))}
+
+            {/* Live preview of the tear being drawn */}
+            {strokePoints.length >= 2 && (
+              <svg
+                className="pointer-events-none absolute inset-0 z-20 h-full w-full"
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+              >
+                <path
+                  d={pointsToSvgPath(strokePoints, 100, 100)}
+                  fill="none"
+                  stroke={palette.edgeShadow}
+                  strokeWidth={0.6}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            )}
+
+            <CoverHint label={t("letter.shredHint")} hidden={isDragging || leaves.length > 1} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {!revealed && (
+        <AssistedOpenButton label={t("letter.openWithoutTearing")} onOpen={handleAssistedOpen} />
+      )}
+    </>
+  );
+};
+
+interface FragmentPieceProps {
+  fragment: Fragment;
+  seal: string[];
+  palette: CoverPalette;
+}
+
+// One piece of the cover; pieces that come loose drop and spin away
+const FragmentPiece = ({ fragment, seal, palette }: FragmentPieceProps) => {
+  const { reduceMotion } = useMotion();
+  const clipPath = useMemo(() => pointsToClipPath(fragment.polygon), [fragment.polygon]);
+  const fall = useMemo(() => {
+    const centroid = polygonCentroid(fragment.polygon);
+    return { x: (centroid.x - 0.5) * 80, rotate: (centroid.x - 0.5) * 40 };
+  }, [fragment.polygon]);
+
+  return (
+    <motion.div
+      className="pointer-events-none absolute inset-0 rounded-sm"
+      initial={{ x: 0, y: 0, rotate: 0, opacity: 1 }}
+      animate={
+        !fragment.detached
+          ? { x: 0, y: 0, rotate: 0, opacity: 1 }
+          : reduceMotion
+            ? { opacity: 0 }
+            : { x: fall.x, y: 320, rotate: fall.rotate, opacity: 0 }
+      }
+      transition={
+        reduceMotion ? { duration: 0.5, ease: "easeOut" } : { duration: 1.1, ease: [0.5, 0, 0.75, 0] }
+      }
+      style={{ clipPath, background: palette.background }}
+    >
+      <PaperTexture palette={palette} />
+      <div className="absolute inset-0" style={{ background: palette.vignette }} />
+      {/* Every piece carries its share of the seal, so the seal tears too */}
+      <div className="absolute inset-0 flex items-center justify-center">
+        <WaxSeal lines={seal} seal={palette.seal} />
+      </div>
+    </motion.div>
+  );
+};
+
+export default ShredOpener;
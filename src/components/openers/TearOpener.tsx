@@ -0,0 +1,679 @@
+import { useRef, useState, useCallback, useEffect, useMemo } from "react";
+import { motion, AnimatePresence, useMotionValue, useTransform } from "framer-motion";
+import {
+  DEFAULT_TEAR_PROFILE,
+  createTearLine,
+  nearCoverEdge,
+  pointsToSvgPath,
+  pullApartPath,
+  pullApartProgress,
+  pullApartSpan,
+  tearGeometry,
+  tearProgressBetween,
+  type TearGeometry,
+  type TearLine,
+  type TearPoint,
+} from "@/lib/tear";
+import { seededRandom } from "@/lib/random";
+import { releaseVelocity, type PointerSample } from "@/lib/physics";
+import { MAX_RECORDED_SAMPLES, type TearSample } from "@/lib/recording";
+import { coverPalette } from "@/lib/cover";
+import { classifyGesture, type GestureIntent } from "@/lib/gesture";
+import { playFinalRip, playTearGrain, tearPulse } from "@/lib/sfx";
+import { useI18n } from "@/i18n/context";
+import PaperTexture from "./PaperTexture";
+import WaxSeal from "./WaxSeal";
+import CoverHint from "./CoverHint";
+import AssistedOpenButton from "./AssistedOpenButton";
+import { TornPieces, type TearRelease } from "./TornPaper";
+import { paintTearLine } from "./cover";
+import type { OpenerProps } from "./types";
+
+// Pointer samples kept for measuring how fast the tear ended
+const MAX_SAMPLES = 12;
+
+// Ready-made diagonal tear for keyboard tearing and the assisted open
+const GUIDED_TEAR: TearPoint[] = (() => {
+  const rng = seededRandom(42);
+  return Array.from({ length: 21 }, (_, i) => ({
+    x: 0.1 + (i / 20) * 0.8 + (rng() - 0.5) * 0.03,
+    y: 0.3 + (i / 20) * 0.4 + (rng() - 0.5) * 0.03,
+  }));
+})();
+
+// How long (ms) Space or Enter must be held to tear along the guided path
+const KEY_TEAR_DURATION = 1600;
+
+const isTearKey = (key: string) => key === " " || key === "Enter";
+// How fast a held-key tear sounds, as if pulled at this many px/s
+const KEY_TEAR_SPEED = 700;
+
+// A second finger can still turn a drag into a pull until it's torn this far
+const PULL_TAKEOVER_PROGRESS = 0.15;
+
+// A pull-apart tear under way: how far apart the fingers started, where they meet on the
+// tear line (0-1 along it) and the point between them now
+interface Pull {
+  startDistance: number;
+  middle: number;
+  grip: TearPoint;
+}
+
+// A press on the cover that hasn't been recognised as a tear yet
+interface Press {
+  start: PointerSample;
+  pos: TearPoint;
+  pointerType: string;
+  pressure: number;
+  intent: GestureIntent;
+}
+
+// Drag across the cover to rip it in two. The live tear is kept in refs and painted on
+// a canvas once per frame; React only hears when the tear starts, crosses a quarter,
+// snaps back or finishes.
+const TearOpener = ({
+  config,
+  cover,
+  tearProfile: profile = DEFAULT_TEAR_PROFILE,
+  revealed,
+  onProgress,
+  onComplete,
+  onRecorded,
+  onStroke,
+}: OpenerProps) => {
+  const { t } = useI18n();
+  const palette = useMemo(() => coverPalette(cover), [cover]);
+  const coverRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // The tear in progress, built up point by point; null when not tearing
+  const lineRef = useRef<TearLine | null>(null);
+  const progressRef = useRef(0);
+  const tearProgress = useMotionValue(0);
+  const sealOpacity = useTransform(tearProgress, (p) => 1 - p * 1.5);
+  const sealScale = useTransform(tearProgress, (p) => 1 - p * 0.08);
+  const drawFrameRef = useRef<number | null>(null);
+  // The finished tear, for the pieces
+  const [torn, setTorn] = useState<TearGeometry | null>(null);
+  const dragStartRef = useRef<TearPoint | null>(null);
+  const lastPointRef = useRef<TearPoint | null>(null);
+  const samplesRef = useRef<PointerSample[]>([]);
+  // The whole gesture, for replaying it later; empty for keyboard and assisted tears
+  const recordingRef = useRef<TearSample[]>([]);
+  const [release, setRelease] = useState<TearRelease | null>(null);
+  const pressRef = useRef<Press | null>(null);
+  const [isTouch, setIsTouch] = useState(false);
+  // Bumped on every tap so the seal can wiggle a hint that the cover wants a drag
+  const [taps, setTaps] = useState(0);
+  const keyTearRef = useRef<number | null>(null);
+  // Quarters of the way across the tear has reached, for progress reports and haptics
+  const quarterRef = useRef(0);
+  const [isKeyboardFocused, setIsKeyboardFocused] = useState(false);
+  const pullApart = config?.type === "tear" && config.mode === "pull";
+  // Fingers on the cover by pointer id, for pull-apart tearing
+  const touchesRef = useRef(new Map<number, PointerSample>());
+  const pullRef = useRef<Pull | null>(null);
+
+  useEffect(() => {
+    setIsTouch("ontouchstart" in window || navigator.maxTouchPoints > 0);
+  }, []);
+
+  // The cover lets touch pan the page vertically, and the browser would take a two-finger
+  // pull that starts out vertical as a pan and cancel its pointers. Changing touch-action
+  // mid-gesture comes too late, so claim multi-finger touches as they land instead
+  // (React's touch handlers are passive and can't).
+  useEffect(() => {
+    const el = coverRef.current;
+    if (!pullApart || revealed || !el) return;
+    const claimMultiTouch = (e: TouchEvent) => {
+      if (e.touches.length > 1 || pullRef.current) e.preventDefault();
+    };
+    el.addEventListener("touchstart", claimMultiTouch, { passive: false });
+    el.addEventListener("touchmove", claimMultiTouch, { passive: false });
+    return () => {
+      el.removeEventListener("touchstart", claimMultiTouch);
+      el.removeEventListener("touchmove", claimMultiTouch);
+    };
+  }, [pullApart, revealed]);
+
+  useEffect(
+    () => () => {
+      if (keyTearRef.current !== null) cancelAnimationFrame(keyTearRef.current);
+      if (drawFrameRef.current !== null) cancelAnimationFrame(drawFrameRef.current);
+    },
+    [],
+  );
+
+  const drawTear = useCallback(() => {
+    drawFrameRef.current = null;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const progress = progressRef.current;
+    // A pull-apart tear opens out from between the fingers
+    const span = pullRef.current && pullApartSpan(pullRef.current.middle, progress);
+    const geometry = lineRef.current?.geometry(progress, span ?? undefined) ?? {
+      points: [],
+      fibers: [],
+    };
+    paintTearLine(ctx, canvas.width, canvas.height, geometry, progress, palette);
+  }, [palette]);
+
+  // Pointer events can arrive several times a frame; paint at most once per frame
+  const scheduleDraw = useCallback(() => {
+    if (drawFrameRef.current === null) drawFrameRef.current = requestAnimationFrame(drawTear);
+  }, [drawTear]);
+
+  // Match the canvas to the cover at device resolution as a tear starts
+  const startLine = useCallback((first?: TearPoint) => {
+    const canvas = canvasRef.current;
+    if (canvas) {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.offsetWidth * dpr);
+      canvas.height = Math.round(canvas.offsetHeight * dpr);
+    }
+    const line = createTearLine(profile);
+    if (first) line.push(first);
+    lineRef.current = line;
+    return line;
+  }, [profile]);
+
+  const setProgress = useCallback(
+    (progress: number) => {
+      progressRef.current = progress;
+      tearProgress.set(progress);
+      const quarter = Math.floor(progress * 4);
+      if (quarter !== quarterRef.current) {
+        quarterRef.current = quarter;
+        onProgress?.(progress);
+      }
+    },
+    [tearProgress, onProgress],
+  );
+
+  // Get normalized position within the cover
+  const getNormalizedPos = useCallback(
+    (clientX: number, clientY: number): TearPoint | null => {
+      const el = coverRef.current;
+      if (!el) return null;
+      const rect = el.getBoundingClientRect();
+      return {
+        x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+        y: Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)),
+      };
+    },
+    [],
+  );
+
+  // Snapshot the pointer's speed and position for the pieces' flight
+  const captureRelease = useCallback((grip?: TearPoint) => {
+    const rect = coverRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const samples = samplesRef.current;
+    const last = samples[samples.length - 1];
+    setRelease({
+      velocity: releaseVelocity(samples),
+      grip: grip
+        ? { x: grip.x * rect.width, y: grip.y * rect.height }
+        : last
+          ? { x: last.x - rect.left, y: last.y - rect.top }
+          : { x: rect.width / 2, y: rect.height / 2 },
+      width: rect.width,
+      height: rect.height,
+      floor: window.innerHeight - rect.top + rect.height * 0.2,
+    });
+  }, []);
+
+  const finishTear = useCallback(
+    (lastPos?: TearPoint) => {
+      const pull = pullRef.current;
+      pullRef.current = null;
+      captureRelease(pull?.grip);
+      playFinalRip();
+      const line = lineRef.current;
+      if (line && lastPos) line.push(lastPos);
+      // Extend the tear to reach the edges for a complete cut, keeping the edge drawn so
+      // far; a pull-apart tear already runs from edge to edge
+      if (line && line.path.length >= 2) {
+        if (!pull) line.complete();
+        setTorn(line.geometry(progressRef.current));
+      }
+      lineRef.current = null;
+
+      setIsDragging(false);
+      dragStartRef.current = null;
+      lastPointRef.current = null;
+      const el = coverRef.current;
+      if (el && recordingRef.current.length > 0) {
+        onRecorded?.({
+          aspect: el.offsetHeight > 0 ? el.offsetWidth / el.offsetHeight : 1,
+          samples: recordingRef.current,
+        });
+      }
+      onComplete();
+    },
+    [captureRelease, onComplete, onRecorded],
+  );
+
+  // Not torn far enough: the paper snaps back whole
+  const cancelTear = useCallback(() => {
+    lineRef.current = null;
+    pullRef.current = null;
+    dragStartRef.current = null;
+    lastPointRef.current = null;
+    setProgress(0);
+    scheduleDraw();
+    setIsDragging(false);
+  }, [setProgress, scheduleDraw]);
+
+  // Two fingers on the cover tear between them as they're pulled apart. Takes over from
+  // the first finger's press, or its drag if that has barely begun.
+  const beginPull = useCallback(() => {
+    const [a, b] = [...touchesRef.current.values()];
+    const el = coverRef.current;
+    const pa = getNormalizedPos(a.x, a.y);
+    const pb = getNormalizedPos(b.x, b.y);
+    if (!el || !pa || !pb || keyTearRef.current !== null) return false;
+    if (pullRef.current || progressRef.current > PULL_TAKEOVER_PROGRESS) return false;
+
+    pressRef.current = null;
+    dragStartRef.current = null;
+    lastPointRef.current = null;
+    const { path, middle } = pullApartPath(
+      pa,
+      pb,
+      el.offsetWidth,
+      el.offsetHeight,
+      profile.pointSpacing,
+    );
+    const line = startLine();
+    path.forEach((p) => line.push(p));
+    const grip = { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 };
+    pullRef.current = { startDistance: Math.hypot(b.x - a.x, b.y - a.y), middle, grip };
+    samplesRef.current = [{ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, t: Math.max(a.t, b.t) }];
+    // Replays follow a single path, so pulls aren't recorded
+    recordingRef.current = [];
+    quarterRef.current = 0;
+    setProgress(0);
+    scheduleDraw();
+    setIsDragging(true);
+    return true;
+  }, [getNormalizedPos, startLine, setProgress, scheduleDraw, profile]);
+
+  const movePull = useCallback(
+    (pull: Pull, e: React.PointerEvent) => {
+      const touches = touchesRef.current;
+      if (!touches.has(e.pointerId)) return;
+      const previous = [...touches.values()];
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY, t: e.timeStamp });
+      const [a, b] = [...touches.values()];
+      const el = coverRef.current;
+      if (!b || !el) return;
+
+      const distance = Math.hypot(b.x - a.x, b.y - a.y);
+      const progress = pullApartProgress(
+        pull.startDistance,
+        distance,
+        el.offsetWidth,
+        el.offsetHeight,
+        profile.reach,
+      );
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, t: e.timeStamp };
+      pull.grip = getNormalizedPos(mid.x, mid.y) ?? pull.grip;
+      samplesRef.current = [...samplesRef.current.slice(-(MAX_SAMPLES - 1)), mid];
+
+      // How fast the fingers are separating sets the sound, like a drag's speed does
+      const [pa, pb] = previous;
+      const elapsed = e.timeStamp - Math.max(pa.t, pb?.t ?? pa.t);
+      const before = pb ? Math.hypot(pb.x - pa.x, pb.y - pa.y) : distance;
+      const rate = elapsed > 0 ? Math.max(0, ((distance - before) / elapsed) * 1000) : 0;
+      playTearGrain(rate, progress);
+      if (Math.floor(progress * 4) > quarterRef.current) tearPulse();
+      setProgress(progress);
+      scheduleDraw();
+      if (progress >= 1) finishTear();
+    },
+    [getNormalizedPos, setProgress, scheduleDraw, finishTear, profile],
+  );
+
+  const handleCoverPointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (revealed) return;
+      if (pullApart && e.pointerType === "touch") {
+        const touches = touchesRef.current;
+        touches.set(e.pointerId, { x: e.clientX, y: e.clientY, t: e.timeStamp });
+        if (touches.size === 2 && beginPull()) {
+          (e.target as HTMLElement).setPointerCapture(e.pointerId);
+          return;
+        }
+      }
+      if (lineRef.current) return;
+      const pos = getNormalizedPos(e.clientX, e.clientY);
+      if (!pos) return;
+      if (e.pointerType === "touch") setIsTouch(true);
+      // Don't start tearing until the press has moved like a tear
+      pressRef.current = {
+        start: { x: e.clientX, y: e.clientY, t: e.timeStamp },
+        pos,
+        pointerType: e.pointerType,
+        pressure: e.pressure,
+        intent: "pending",
+      };
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    [revealed, getNormalizedPos, pullApart, beginPull],
+  );
+
+  const beginTear = useCallback(
+    ({ start, pos, pressure }: Press) => {
+      dragStartRef.current = pos;
+      lastPointRef.current = pos;
+      samplesRef.current = [start];
+      recordingRef.current = [{ ...pos, t: 0, pressure }];
+      quarterRef.current = 0;
+      startLine(pos);
+      setIsDragging(true);
+    },
+    [startLine],
+  );
+
+  const handleCoverPointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      const pull = pullRef.current;
+      if (pull) {
+        if (!revealed) movePull(pull, e);
+        return;
+      }
+      if (pullApart && touchesRef.current.has(e.pointerId)) {
+        touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY, t: e.timeStamp });
+      }
+      const press = pressRef.current;
+      if (press?.intent === "pending" && !revealed) {
+        press.intent = classifyGesture(
+          press.start,
+          { x: e.clientX, y: e.clientY, t: e.timeStamp },
+          press.pointerType,
+          false,
+        );
+        // Steep touch drags are left to the page to scroll
+        if (press.intent === "tear") beginTear(press);
+        return;
+      }
+      const line = lineRef.current;
+      if (!line || !dragStartRef.current || revealed) return;
+
+      const pos = getNormalizedPos(e.clientX, e.clientY);
+      if (!pos || !lastPointRef.current) return;
+      samplesRef.current = [
+        ...samplesRef.current.slice(-(MAX_SAMPLES - 1)),
+        { x: e.clientX, y: e.clientY, t: e.timeStamp },
+      ];
+      if (recordingRef.current.length < MAX_RECORDED_SAMPLES && pressRef.current) {
+        const t = e.timeStamp - pressRef.current.start.t;
+        recordingRef.current.push({ ...pos, t, pressure: e.pressure });
+      }
+
+      // Only add point if moved enough (prevents clustered points)
+      const dx = pos.x - lastPointRef.current.x;
+      const dy = pos.y - lastPointRef.current.y;
+      if (Math.hypot(dx, dy) > profile.pointSpacing) {
+        lastPointRef.current = pos;
+        line.push(pos);
+      }
+
+      // Progress based on how far the tear has traveled across the cover, using its
+      // actual dimensions so you must drag nearly the full height/width
+      const el = coverRef.current;
+      const progress = tearProgressBetween(
+        dragStartRef.current,
+        pos,
+        el?.offsetWidth ?? 0,
+        el?.offsetHeight ?? 0,
+        profile.reach,
+      );
+
+      const velocity = releaseVelocity(samplesRef.current);
+      playTearGrain(Math.hypot(velocity.x, velocity.y), progress);
+      if (Math.floor(progress * 4) > quarterRef.current) tearPulse();
+      setProgress(progress);
+      scheduleDraw();
+
+      // Also finish once the cursor has run far enough and reached an edge of the cover
+      const nearEdge = nearCoverEdge(pos, profile.edgeMargin);
+      if (progress >= 1 || (progress >= profile.edgeProgress && nearEdge)) {
+        finishTear(pos);
+      }
+    },
+    [
+      revealed,
+      getNormalizedPos,
+      finishTear,
+      beginTear,
+      movePull,
+      setProgress,
+      scheduleDraw,
+      pullApart,
+      profile,
+    ],
+  );
+
+  const handleCoverPointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      const press = pressRef.current;
+      pressRef.current = null;
+      touchesRef.current.delete(e.pointerId);
+      if (revealed) return;
+
+      // Letting go of either finger ends a pull; far enough and the paper gives way
+      if (pullRef.current) {
+        if (progressRef.current >= profile.releaseProgress) finishTear();
+        else cancelTear();
+        return;
+      }
+
+      if (!dragStartRef.current) {
+        // A quick tap doesn't tear; nudge the seal to show the cover wants a drag
+        const end = { x: e.clientX, y: e.clientY, t: e.timeStamp };
+        if (press && classifyGesture(press.start, end, press.pointerType, true) === "tap") {
+          setTaps((n) => n + 1);
+        }
+        return;
+      }
+
+      // Check if the last point is near an edge — if so, they tore all the way across
+      const lastPt = lastPointRef.current;
+      const nearEdge = lastPt ? nearCoverEdge(lastPt, profile.releaseEdgeMargin) : false;
+
+      const progress = progressRef.current;
+      if (
+        progress >= profile.releaseProgress ||
+        (progress >= profile.releaseEdgeProgress && nearEdge)
+      ) {
+        // Tore far enough — finish where the pointer was last seen
+        const recording = recordingRef.current;
+        const last = recording[recording.length - 1];
+        finishTear(last && { x: last.x, y: last.y });
+      } else {
+        // Maybe it was never meant as a tear, but a shape drawn on the cover
+        onStroke?.(recordingRef.current.map(({ x, y }) => ({ x, y })));
+        cancelTear();
+      }
+    },
+    [revealed, finishTear, cancelTear, onStroke, profile],
+  );
+
+  // The browser took the gesture over (e.g. to scroll); drop any tear in progress
+  const handleCoverPointerCancel = useCallback(
+    (e: React.PointerEvent) => {
+      pressRef.current = null;
+      touchesRef.current.delete(e.pointerId);
+      if (dragStartRef.current || pullRef.current) cancelTear();
+    },
+    [cancelTear],
+  );
+
+  // Accessible fallback that opens the cover along a ready-made tear
+  const handleAssistedOpen = useCallback(() => {
+    if (revealed || lineRef.current) return;
+
+    setProgress(1);
+    setTorn(tearGeometry([{ x: 0, y: 0.28 }, ...GUIDED_TEAR, { x: 1, y: 0.72 }], 1, profile));
+    // No gesture to follow; the pieces just come apart and drop
+    samplesRef.current = [];
+    captureRelease({ x: 1, y: 0.72 });
+    playFinalRip();
+    onComplete();
+  }, [revealed, setProgress, captureRelease, onComplete, profile]);
+
+  // Holding Space or Enter tears along the guided path; letting go early snaps it back
+  const handleCoverKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (revealed || !isTearKey(e.key)) return;
+      e.preventDefault();
+      if (e.repeat || keyTearRef.current !== null || lineRef.current) return;
+
+      samplesRef.current = [];
+      recordingRef.current = [];
+      quarterRef.current = 0;
+      const line = startLine();
+      setIsDragging(true);
+      const startedAt = performance.now();
+      const step = () => {
+        const progress = Math.min((performance.now() - startedAt) / KEY_TEAR_DURATION, 1);
+        const shown = Math.max(2, Math.ceil(progress * GUIDED_TEAR.length));
+        while (line.path.length < shown) line.push(GUIDED_TEAR[line.path.length]);
+        setProgress(progress);
+        playTearGrain(KEY_TEAR_SPEED, progress);
+        drawTear();
+        if (progress >= 1) {
+          keyTearRef.current = null;
+          finishTear();
+          return;
+        }
+        keyTearRef.current = requestAnimationFrame(step);
+      };
+      keyTearRef.current = requestAnimationFrame(step);
+    },
+    [revealed, startLine, setProgress, drawTear, finishTear],
+  );
+
+  const handleCoverKeyUp = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (!isTearKey(e.key) || keyTearRef.current === null) return;
+      cancelAnimationFrame(keyTearRef.current);
+      keyTearRef.current = null;
+      cancelTear();
+    },
+    [cancelTear],
+  );
+
+  return (
+    <>
+      <AnimatePresence>
+        {!revealed ? (
+          /* ---- Pre-tear: single cover with live tear preview ---- */
+          <motion.div
+            ref={coverRef}
+            role="button"
+            tabIndex={0}
+            aria-label={t("letter.tearLabel")}
+            className="absolute inset-0 z-10 select-none overflow-hidden rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-4"
+            onPointerDown={handleCoverPointerDown}
+            onPointerMove={handleCoverPointerMove}
+            onPointerUp={handleCoverPointerUp}
+            onPointerCancel={handleCoverPointerCancel}
+            onKeyDown={handleCoverKeyDown}
+            onKeyUp={handleCoverKeyUp}
+            onFocus={(e) => setIsKeyboardFocused(e.currentTarget.matches(":focus-visible"))}
+            onBlur={() => setIsKeyboardFocused(false)}
+            exit={{
+              opacity: 0,
+              transition: { duration: 0.4, ease: "easeOut" },
+            }}
+            style={{
+              // Touch keeps vertical panning so the page can still scroll past the cover;
+              // two-finger pulls are claimed from the browser as they land (see above)
+              touchAction: isTouch ? "pan-y" : "none",
+              cursor: isDragging ? "grabbing" : "grab",
+              background: palette.background,
+            }}
+          >
+            <PaperTexture palette={palette} />
+
+            {/* Subtle vignette */}
+            <div
+              className="pointer-events-none absolute inset-0"
+              style={{ background: palette.vignette }}
+            />
+
+            {/* Where a held Space key will tear */}
+            {isKeyboardFocused && !isDragging && (
+              <svg
+                className="pointer-events-none absolute inset-0 h-full w-full"
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+              >
+                <path
+                  d={pointsToSvgPath(GUIDED_TEAR, 100, 100)}
+                  fill="none"
+                  stroke={palette.core}
+                  strokeOpacity={0.5}
+                  strokeWidth={0.4}
+                  strokeDasharray="1.5 1.5"
+                />
+              </svg>
+            )}
+
+            {/* Live tear preview line */}
+            <canvas
+              ref={canvasRef}
+              className="pointer-events-none absolute inset-0 h-full w-full"
+              aria-hidden
+            />
+
+            {/* Wax seal */}
+            <motion.div
+              className="pointer-events-none absolute inset-0 z-20 flex flex-col items-center justify-center gap-4"
+              style={{ opacity: sealOpacity, scale: sealScale }}
+            >
+              <motion.div
+                key={taps}
+                animate={taps > 0 ? { rotate: [0, -8, 7, -4, 0] } : undefined}
+                transition={{ duration: 0.5 }}
+              >
+                <WaxSeal lines={[t("letter.sealTop"), t("letter.sealBottom")]} seal={palette.seal} />
+              </motion.div>
+            </motion.div>
+
+            <CoverHint
+              label={
+                isKeyboardFocused
+                  ? t("letter.tearHintKeyboard")
+                  : isTouch
+                    ? t(pullApart ? "letter.tearHintPull" : "letter.tearHintTouch")
+                    : t("letter.tearHint")
+              }
+              hidden={isDragging}
+            />
+          </motion.div>
+        ) : torn && release ? (
+          /* ---- Post-tear: two pieces separating ---- */
+          <TornPieces
+            key="pieces"
+            points={torn.points}
+            fibers={torn.fibers}
+            release={release}
+            palette={palette}
+          />
+        ) : null}
+      </AnimatePresence>
+
+      {/* Outside the cover so screen readers don't fold it into the cover's own label */}
+      {!revealed && (
+        <AssistedOpenButton label={t("letter.openWithoutTearing")} onOpen={handleAssistedOpen} />
+      )}
+    </>
+  );
+};
+
+export default TearOpener;
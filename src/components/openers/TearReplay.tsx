@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence, useMotionValue, useTransform } from "framer-motion";
+import {
+  DEFAULT_TEAR_PROFILE,
+  createTearLine,
+  tearGeometry,
+  type TearGeometry,
+  type TearProfile,
+} from "@/lib/tear";
+import { releaseVelocity } from "@/lib/physics";
+import {
+  finalTearPath,
+  recordingDuration,
+  replayFrame,
+  type TearRecording,
+} from "@/lib/recording";
+import { coverPalette } from "@/lib/cover";
+import type { CoverDesign } from "@/lib/letter";
+import { useI18n } from "@/i18n/context";
+import PaperTexture from "./PaperTexture";
+import WaxSeal from "./WaxSeal";
+import { TornPieces, type TearRelease } from "./TornPaper";
+import { paintTearLine } from "./cover";
+
+interface TearReplayProps {
+  recording: TearRecording;
+  // The letter's cover, when replaying alongside it
+  cover?: CoverDesign;
+  // The profile it was torn with, so the edge comes out the same
+  profile?: TearProfile;
+}
+
+// Plays a recorded tear back on a stand-in cover, drawn the same way as the live tear.
+// Remount it (e.g. with a new key) to play it again.
+const TearReplay = ({
+  recording: { aspect, samples },
+  cover,
+  profile = DEFAULT_TEAR_PROFILE,
+}: TearReplayProps) => {
+  const { t } = useI18n();
+  const palette = useMemo(() => coverPalette(cover), [cover]);
+  const coverRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const tearProgress = useMotionValue(0);
+  const sealOpacity = useTransform(tearProgress, (p) => 1 - p * 1.5);
+  const sealScale = useTransform(tearProgress, (p) => 1 - p * 0.08);
+  const [torn, setTorn] = useState<TearGeometry | null>(null);
+  const [release, setRelease] = useState<TearRelease | null>(null);
+
+  useEffect(() => {
+    const el = coverRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!el) return;
+    const width = el.offsetWidth;
+    const height = el.offsetHeight;
+    if (canvas) {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    const duration = recordingDuration(samples);
+    const startedAt = performance.now();
+    let frameId: number;
+
+    const step = () => {
+      const elapsed = performance.now() - startedAt;
+      const { path, progress } = replayFrame(samples, elapsed, width, height, profile);
+      tearProgress.set(progress);
+      if (canvas && ctx) {
+        const geometry = tearGeometry(path, progress, profile);
+        paintTearLine(ctx, canvas.width, canvas.height, geometry, progress, palette);
+      }
+      if (elapsed < duration) {
+        frameId = requestAnimationFrame(step);
+        return;
+      }
+      // Let go the way the hand did, scaled to this cover
+      const last = samples[samples.length - 1];
+      const line = createTearLine(profile);
+      finalTearPath(samples, profile).forEach((p) => line.push(p));
+      line.complete();
+      setTorn(line.geometry(progress));
+      setRelease({
+        velocity: releaseVelocity(
+          samples.slice(-12).map((s) => ({ x: s.x * width, y: s.y * height, t: s.t })),
+        ),
+        grip: { x: last.x * width, y: last.y * height },
+        width,
+        height,
+        floor: height * 1.2,
+      });
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [samples, profile, palette, tearProgress]);
+
+  return (
+    <div
+      role="img"
+      aria-label={t("replay.label")}
+      className="relative mx-auto w-full overflow-hidden rounded-sm bg-parchment"
+      // Keep the shape it was torn in, but never taller than most of the screen
+      style={{ aspectRatio: aspect, maxWidth: `min(100%, ${aspect * 60}vh)` }}
+    >
+      {/* Stand-in for the letter underneath */}
+      <div className="absolute inset-x-[14%] top-[18%] space-y-3" aria-hidden>
+        {[0.5, 1, 0.9, 1, 0.7].map((width, i) => (
+          <div key={i} className="h-px bg-ink/15" style={{ width: `${width * 100}%` }} />
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {!release ? (
+          <motion.div
+            ref={coverRef}
+            className="absolute inset-0 z-10 overflow-hidden rounded-sm"
+            exit={{ opacity: 0, transition: { duration: 0.4, ease: "easeOut" } }}
+            style={{ background: palette.background }}
+          >
+            <PaperTexture palette={palette} />
+            <div className="absolute inset-0" style={{ background: palette.vignette }} />
+            <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" aria-hidden />
+            <motion.div
+              className="absolute inset-0 z-20 flex items-center justify-center"
+              style={{ opacity: sealOpacity, scale: sealScale }}
+            >
+              <WaxSeal lines={[t("letter.sealTop"), t("letter.sealBottom")]} seal={palette.seal} />
+            </motion.div>
+          </motion.div>
+        ) : (
+          torn && (
+            <TornPieces
+              key="pieces"
+              points={torn.points}
+              fibers={torn.fibers}
+              release={release}
+              palette={palette}
+            />
+          )
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default TearReplay;
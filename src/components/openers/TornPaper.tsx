@@ -0,0 +1,160 @@
+import { useId, useMemo } from "react";
+import { motion } from "framer-motion";
+import {
+  pointsToClipPath,
+  pointsToSvgPath,
+  polygonCentroid,
+  splitCover,
+  tornCoreBand,
+  TORN_CORE_WIDTH,
+  TORN_FEATHER_SCALE,
+  type FiberLine,
+  type TearPoint,
+} from "@/lib/tear";
+import { launchPiece, simulateBody, toFlight, type Vector } from "@/lib/physics";
+import type { CoverPalette } from "@/lib/cover";
+import { useMotion } from "@/motion/context";
+import PaperTexture from "./PaperTexture";
+
+// How the hand left the paper when the tear finished; sizes in px
+export interface TearRelease {
+  velocity: Vector;
+  grip: Vector;
+  width: number;
+  height: number;
+  // How far a piece must fall to leave the screen
+  floor: number;
+}
+
+interface TornEdgeProps {
+  points: TearPoint[];
+  fibers: FiberLine[];
+  // Core band width in cover units
+  width: number;
+  palette: CoverPalette;
+}
+
+// The pale paper core exposed along a finished rip, feathered by a wider, fainter band
+// under it and frayed with turbulence. The live tear is drawn without the filter
+// (see paintTearLine), which would otherwise re-run on every move.
+const TornEdge = ({ points, fibers, width, palette }: TornEdgeProps) => {
+  const fray = `torn-edge-${useId()}`;
+  const feather = useMemo(
+    () => tornCoreBand(points, width * TORN_FEATHER_SCALE),
+    [points, width],
+  );
+  const core = useMemo(() => tornCoreBand(points, width), [points, width]);
+
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+    >
+      <defs>
+        <filter id={fray} filterUnits="userSpaceOnUse" x="-5" y="-5" width="110" height="110">
+          <feTurbulence type="fractalNoise" baseFrequency="0.8" numOctaves="2" seed="7" />
+          <feDisplacementMap
+            in="SourceGraphic"
+            scale="1.2"
+            xChannelSelector="R"
+            yChannelSelector="G"
+          />
+        </filter>
+      </defs>
+      <g filter={`url(#${fray})`}>
+        <path d={pointsToSvgPath(feather, 100, 100)} fill={palette.core} opacity={0.35} />
+        <path d={pointsToSvgPath(core, 100, 100)} fill={palette.core} opacity={0.9} />
+      </g>
+      {/* Loose fibers pulled out of the core */}
+      {fibers.map((f, i) => (
+        <line
+          key={i}
+          x1={f.x1}
+          y1={f.y1}
+          x2={f.x2}
+          y2={f.y2}
+          stroke={palette.core}
+          strokeWidth="0.15"
+          opacity={f.opacity}
+        />
+      ))}
+    </svg>
+  );
+};
+
+interface TornPiecesProps {
+  points: TearPoint[];
+  fibers: FiberLine[];
+  release: TearRelease;
+  palette: CoverPalette;
+}
+
+// The two halves of the cover, flung the way the paper was ripped
+export const TornPieces = ({ points, fibers, release, palette }: TornPiecesProps) => {
+  const { reduceMotion } = useMotion();
+
+  const pieces = useMemo(() => {
+    if (points.length < 2) return [];
+    const { width, height } = release;
+    const first = points[0];
+    const last = points[points.length - 1];
+    const tearCenter = { x: ((first.x + last.x) / 2) * width, y: ((first.y + last.y) / 2) * height };
+
+    return splitCover(points).map((piece) => {
+      const centroid = polygonCentroid(piece);
+      const body = launchPiece(
+        { x: centroid.x * width, y: centroid.y * height },
+        tearCenter,
+        release.grip,
+        release.velocity,
+      );
+      return {
+        centroid,
+        clipPath: pointsToClipPath(piece),
+        flight: toFlight(simulateBody(body, { floor: release.floor })),
+      };
+    });
+  }, [points, release]);
+
+  return (
+    <>
+      {pieces.map(({ centroid, clipPath, flight }, i) => (
+        <motion.div
+          key={`piece-${i}`}
+          className="pointer-events-none absolute inset-0 z-10 overflow-visible rounded-sm"
+          initial={{ x: 0, y: 0, rotate: 0, opacity: 1 }}
+          animate={
+            reduceMotion
+              ? { opacity: 0 }
+              : { x: flight.x, y: flight.y, rotate: flight.rotate, opacity: [1, 1, 0] }
+          }
+          transition={
+            reduceMotion
+              ? { duration: 0.5, ease: "easeOut" }
+              : {
+                  duration: flight.duration,
+                  times: flight.times,
+                  ease: "linear",
+                  opacity: { duration: flight.duration, times: [0, 0.8, 1] },
+                }
+          }
+          style={{
+            clipPath,
+            background: palette.background,
+            // Spin each piece about its own middle, as its flight was simulated
+            transformOrigin: `${centroid.x * 100}% ${centroid.y * 100}%`,
+          }}
+        >
+          <PaperTexture palette={palette} />
+          <TornEdge
+            points={points}
+            fibers={fibers}
+            width={TORN_CORE_WIDTH}
+            palette={palette}
+          />
+        </motion.div>
+      ))}
+    </>
+  );
+};
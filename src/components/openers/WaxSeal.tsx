@@ -0,0 +1,41 @@
+import { DEFAULT_COVER_PALETTE, type SealPalette } from "@/lib/cover";
+import Monogram from "./Monogram";
+
+interface WaxSealProps {
+  // The opener's own words, shown unless the seal carries a monogram or emblem
+  lines: string[];
+  seal?: SealPalette;
+}
+
+const WaxSeal = ({ lines, seal = DEFAULT_COVER_PALETTE.seal }: WaxSealProps) => (
+  <div
+    className="flex h-24 w-24 flex-col items-center justify-center rounded-full sm:h-28 sm:w-28"
+    style={{
+      background: `radial-gradient(circle at 40% 35%, ${seal.highlight}, ${seal.shade} 70%)`,
+      boxShadow: `0 4px 20px -4px ${seal.shadow}, inset 0 1px 2px ${seal.rim}`,
+    }}
+  >
+    {seal.content.type === "monogram" ? (
+      <Monogram initials={seal.content.initials} color={seal.ink} />
+    ) : seal.content.type === "emblem" && seal.content.image ? (
+      <img
+        src={seal.content.image}
+        alt=""
+        className="h-3/5 w-3/5 rounded-full object-cover opacity-90"
+        style={{ filter: `drop-shadow(1px 1.5px 0 ${seal.shadow})` }}
+        draggable={false}
+      />
+    ) : (
+      lines.filter(Boolean).map((line, i) => (
+        <span
+          key={i}
+          className="font-script text-sm leading-tight text-primary-foreground/90 sm:text-base"
+        >
+          {line}
+        </span>
+      ))
+    )}
+  </div>
+);
+
+export default WaxSeal;
@@ -0,0 +1,133 @@
+import { DEFAULT_COVER_PALETTE, type CoverPalette } from "@/lib/cover";
+import type { PaperKind } from "@/lib/letter";
+import { PAPER_TILE_SIZE, paperPixels, paperPresets } from "@/lib/paper";
+import {
+  TORN_CORE_WIDTH,
+  TORN_FEATHER_SCALE,
+  tornCoreBand,
+  type TearGeometry,
+  type TearPoint,
+} from "@/lib/tear";
+
+// Generated tiles by paper and strength; null where canvas isn't available
+const tiles = new Map<string, HTMLCanvasElement | null>();
+const tileUrls = new Map<string, string | null>();
+
+const tileKey = (paper: PaperKind, strength: number) => `${paper}:${strength.toFixed(2)}`;
+
+// The paper's grain, generated once per paper and strength and then reused
+export function paperTile(paper: PaperKind, strength: number): HTMLCanvasElement | null {
+  const key = tileKey(paper, strength);
+  if (!tiles.has(key)) {
+    const canvas = document.createElement("canvas");
+    canvas.width = PAPER_TILE_SIZE;
+    canvas.height = PAPER_TILE_SIZE;
+    const ctx = canvas.getContext("2d");
+    ctx?.putImageData(
+      new ImageData(paperPixels(paperPresets[paper], strength), PAPER_TILE_SIZE, PAPER_TILE_SIZE),
+      0,
+      0,
+    );
+    tiles.set(key, ctx ? canvas : null);
+  }
+  return tiles.get(key)!;
+}
+
+// The same tile as an image URL, for CSS backgrounds
+export function paperTileUrl(paper: PaperKind, strength: number): string | null {
+  const key = tileKey(paper, strength);
+  if (!tileUrls.has(key)) tileUrls.set(key, paperTile(paper, strength)?.toDataURL() ?? null);
+  return tileUrls.get(key)!;
+}
+
+// Paint the same cover (gradient, texture, vignette) onto a canvas; w × h in CSS pixels
+export function paintCover(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  palette: CoverPalette = DEFAULT_COVER_PALETTE,
+) {
+  let gradient: CanvasGradient;
+  if (palette.gradient === "radial") {
+    // Match CSS's "circle at 30% 25%", which reaches to the farthest corner
+    const cx = w * 0.3;
+    const cy = h * 0.25;
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(w - cx, h - cy));
+  } else if (palette.gradient === "vertical") {
+    gradient = ctx.createLinearGradient(0, 0, 0, h);
+  } else {
+    // Match CSS's 135deg gradient line: through the center, toward the bottom-right corner
+    const half = (w + h) / (2 * Math.SQRT2) / Math.SQRT2;
+    gradient = ctx.createLinearGradient(w / 2 - half, h / 2 - half, w / 2 + half, h / 2 + half);
+  }
+  for (const [offset, color] of palette.stops) gradient.addColorStop(offset, color);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, w, h);
+
+  const tile = palette.textureStrength > 0 && paperTile(palette.paper, palette.textureStrength);
+  const grain = tile && ctx.createPattern(tile, "repeat");
+  if (grain) {
+    ctx.fillStyle = grain;
+    ctx.fillRect(0, 0, w, h);
+  }
+
+  const radius = Math.hypot(w, h) / 2;
+  const vignette = ctx.createRadialGradient(w / 2, h / 2, radius * 0.4, w / 2, h / 2, radius);
+  vignette.addColorStop(0, palette.vignetteFade);
+  vignette.addColorStop(1, palette.vignetteColor);
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, w, h);
+}
+
+// Outline points in the 0-100 units the tear SVGs draw in
+function tracePoints(ctx: CanvasRenderingContext2D, points: TearPoint[]) {
+  ctx.beginPath();
+  points.forEach((p, i) =>
+    i === 0 ? ctx.moveTo(p.x * 100, p.y * 100) : ctx.lineTo(p.x * 100, p.y * 100),
+  );
+}
+
+// Draw a tear still running across the cover over whatever was there; w × h in canvas
+// pixels. The gap darkens and the core widens as it goes, like the finished TornEdge
+// but without its fraying.
+export function paintTearLine(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  { points, fibers }: TearGeometry,
+  progress: number,
+  palette: CoverPalette = DEFAULT_COVER_PALETTE,
+) {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, w, h);
+  if (points.length < 2) return;
+
+  // Stretch 0-100 over the cover, as the SVGs' preserveAspectRatio="none" does
+  ctx.scale(w / 100, h / 100);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = palette.edgeShadow;
+  ctx.lineWidth = 0.3 + progress * 0.8;
+  tracePoints(ctx, points);
+  ctx.stroke();
+
+  const core = TORN_CORE_WIDTH * (0.3 + progress * 0.7);
+  ctx.fillStyle = palette.core;
+  ctx.globalAlpha = 0.35;
+  tracePoints(ctx, tornCoreBand(points, core * TORN_FEATHER_SCALE));
+  ctx.fill();
+  ctx.globalAlpha = 0.9;
+  tracePoints(ctx, tornCoreBand(points, core));
+  ctx.fill();
+
+  ctx.strokeStyle = palette.core;
+  ctx.lineWidth = 0.15;
+  for (const f of fibers) {
+    ctx.globalAlpha = f.opacity;
+    ctx.beginPath();
+    ctx.moveTo(f.x1, f.y1);
+    ctx.lineTo(f.x2, f.y2);
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+}
@@ -0,0 +1,15 @@
+import type { OpenerType } from "@/lib/letter";
+import TearOpener from "./TearOpener";
+import ScratchOpener from "./ScratchOpener";
+import EnvelopeOpener from "./EnvelopeOpener";
+import ShredOpener from "./ShredOpener";
+import type { OpenerDefinition } from "./types";
+
+export const openers: Record<OpenerType, OpenerDefinition> = {
+  tear: { label: "Tear open", component: TearOpener },
+  scratch: { label: "Scratch off", component: ScratchOpener },
+  envelope: { label: "Envelope", component: EnvelopeOpener },
+  shred: { label: "Tear to shreds", component: ShredOpener },
+};
+
+export const defaultOpener: OpenerType = "tear";
@@ -0,0 +1,32 @@
+import type { ComponentType } from "react";
+import type { CoverDesign, OpenerConfig } from "@/lib/letter";
+import type { TearRecording } from "@/lib/recording";
+import type { TearPoint, TearProfile } from "@/lib/tear";
+
+// Contract shared by every way of opening the cover over the letter.
+// The opener owns its cover while `revealed` is false and plays its own exit
+// animation once it flips to true, whether it completed itself or was skipped.
+export interface OpenerProps {
+  // The letter's opener settings; defaults apply when the letter names none
+  config?: OpenerConfig;
+  // How the cover and its seal look; the burgundy cover when the letter names none
+  cover?: CoverDesign;
+  // How tearing feels, for openers that tear; the classic tear when omitted
+  tearProfile?: TearProfile;
+  revealed: boolean;
+  // 0-1, how close the recipient is to opening the cover
+  onProgress?: (progress: number) => void;
+  // The recipient has opened the cover; the parent then sets `revealed`
+  onComplete: () => void;
+  // Openers that follow a drawn gesture hand over a recording of it, just before
+  // onComplete, so it can be replayed later
+  onRecorded?: (recording: TearRecording) => void;
+  // Openers that follow a drawn gesture hand over strokes that didn't open the cover,
+  // as points normalized to it, so they can be checked for a secret shape
+  onStroke?: (points: TearPoint[]) => void;
+}
+
+export interface OpenerDefinition {
+  label: string;
+  component: ComponentType<OpenerProps>;
+}
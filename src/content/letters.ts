@@ -0,0 +1,17 @@
+import { parseLetterMarkdown, type LetterParseResult } from "@/lib/letter";
+
+// Every Markdown file in ./letters is bundled at build time, keyed by file name
+const sources = import.meta.glob<string>("./letters/*.md", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+export const letters: Record<string, LetterParseResult> = Object.fromEntries(
+  Object.entries(sources).map(([path, source]) => [
+    path.replace(/^.*\/|\.md$/g, ""),
+    parseLetterMarkdown(source),
+  ]),
+);
+
+export const defaultLetterSlug = "rain";
@@ -0,0 +1,67 @@
+import type { LetterTemplate } from "@/lib/templates";
+
+const sources = import.meta.glob<string>("./templates/*.md", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+const source = (id: string) => sources[`./templates/${id}.md`];
+
+export const letterTemplates: LetterTemplate[] = [
+  {
+    id: "valentines",
+    name: "Valentine's",
+    description: "The original letter to Rain, ready for someone new.",
+    fields: [
+      { key: "petName", label: "Pet name", hint: "baby" },
+      { key: "favor", label: "One small favor", hint: "buy you a flower" },
+    ],
+    source: source("valentines"),
+  },
+  {
+    id: "anniversary",
+    name: "Anniversary",
+    description: "Looking back on the years together.",
+    fields: [
+      { key: "years", label: "How long", hint: "three years" },
+      { key: "firstMemory", label: "First memory", hint: "coffee date" },
+      { key: "petName", label: "Pet name", hint: "sweetheart" },
+    ],
+    source: source("anniversary"),
+  },
+  {
+    id: "birthday",
+    name: "Birthday",
+    description: "A warm wish for their day.",
+    fields: [
+      { key: "age", label: "Age or milestone", hint: "twenty-five" },
+      { key: "wish", label: "Something you wish for them", hint: "sunny adventures" },
+      { key: "petName", label: "Pet name", hint: "love" },
+    ],
+    source: source("birthday"),
+  },
+  {
+    id: "apology",
+    name: "Apology",
+    description: "Owning a mistake and asking to make it right.",
+    fields: [
+      { key: "mistake", label: "What you did", hint: "forgot our dinner" },
+      { key: "promise", label: "Your promise", hint: "I'll listen before I speak." },
+    ],
+    source: source("apology"),
+  },
+  {
+    id: "long-distance",
+    name: "Long distance",
+    description: "For when the miles get loud.",
+    fields: [
+      { key: "distance", label: "The distance", hint: "eight hundred miles" },
+      { key: "littleThing", label: "A little thing you miss", hint: "hum while cooking" },
+      { key: "daysLeft", label: "Days left", hint: "12" },
+      { key: "reunion", label: "Until…", hint: "I see you at the airport" },
+      { key: "petName", label: "Pet name", hint: "darling" },
+    ],
+    source: source("long-distance"),
+  },
+];
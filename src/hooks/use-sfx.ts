@@ -0,0 +1,13 @@
+import * as React from "react";
+
+import { isSfxMuted, setSfxMuted, subscribeSfxMuted } from "@/lib/sfx";
+
+function useSfx() {
+  const [muted, setMuted] = React.useState(isSfxMuted);
+
+  React.useEffect(() => subscribeSfxMuted(setMuted), []);
+
+  return { muted, setMuted: setSfxMuted };
+}
+
+export { useSfx };
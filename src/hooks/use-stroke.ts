@@ -0,0 +1,51 @@
+import * as React from "react";
+
+import type { TearPoint } from "@/lib/tear";
+
+// Long enough for a slow, careful shape; the recognizer resamples it anyway
+const MAX_STROKE_POINTS = 400;
+
+// Pointer handlers that collect one stroke at a time, as points normalized to the
+// element it's drawn on, and hand it over when the pointer lifts. The element should
+// be touch-action: none while enabled, or a finger drawing on it scrolls the page instead.
+function useStroke(onStroke: (points: TearPoint[]) => void, enabled = true) {
+  const strokeRef = React.useRef<TearPoint[] | null>(null);
+
+  const pointAt = (e: React.PointerEvent<HTMLElement>): TearPoint | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    if (!enabled || !e.isPrimary || e.button !== 0) return;
+    const point = pointAt(e);
+    strokeRef.current = point ? [point] : null;
+    // Keep the stroke when it wanders off the element
+    if (point) e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke || !e.isPrimary || stroke.length >= MAX_STROKE_POINTS) return;
+    const point = pointAt(e);
+    if (point) stroke.push(point);
+  };
+
+  const onPointerUp = () => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (stroke && stroke.length > 1) onStroke(stroke);
+  };
+
+  const onPointerCancel = () => {
+    strokeRef.current = null;
+  };
+
+  return { onPointerDown, onPointerMove, onPointerUp, onPointerCancel };
+}
+
+export { useStroke };
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { formatLetterDate } from "@/lib/letter";
+import { I18nContext, type I18nContextValue } from "./context";
+import { defaultLocale, detectLocale, findLocale, saveLocale } from "./locales";
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+const I18nProvider = ({ children }: I18nProviderProps) => {
+  const [code, setCode] = useState(detectLocale);
+  const locale = findLocale(code) ?? findLocale(defaultLocale)!;
+
+  // Keep <html lang/dir> in sync so logical CSS (start/end) and text direction follow the locale
+  useEffect(() => {
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  const setLocale = useCallback((next: string) => {
+    if (!findLocale(next)) return;
+    saveLocale(next);
+    setCode(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, vars) =>
+        (locale.messages[key] ?? key).replace(/\{(\w+)\}/g, (match, name: string) =>
+          vars && name in vars ? String(vars[name]) : match,
+        ),
+      formatDate: (isoDate) =>
+        formatLetterDate(isoDate, locale.messages["letter.dateFormat"], locale.dateLocale),
+    }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
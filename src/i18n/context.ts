@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import type { MessageKey } from "./messages/en";
+import type { LocaleConfig } from "./locales";
+
+export interface I18nContextValue {
+  locale: LocaleConfig;
+  setLocale: (code: string) => void;
+  // Look up a message, filling {name}-style variables
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string;
+  formatDate: (isoDate: string) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider.");
+  }
+  return context;
+}
@@ -0,0 +1,53 @@
+import type { Locale as DateLocale } from "date-fns";
+import { ar as arDate, enUS, es as esDate, fr as frDate } from "date-fns/locale";
+import { en, type Messages } from "./messages/en";
+import { es } from "./messages/es";
+import { fr } from "./messages/fr";
+import { ar } from "./messages/ar";
+
+export interface LocaleConfig {
+  code: string;
+  // Name of the language in itself, as shown in the switcher
+  label: string;
+  dir: "ltr" | "rtl";
+  messages: Messages;
+  dateLocale: DateLocale;
+}
+
+export const locales: LocaleConfig[] = [
+  { code: "en", label: "English", dir: "ltr", messages: en, dateLocale: enUS },
+  { code: "es", label: "Español", dir: "ltr", messages: es, dateLocale: esDate },
+  { code: "fr", label: "Français", dir: "ltr", messages: fr, dateLocale: frDate },
+  { code: "ar", label: "العربية", dir: "rtl", messages: ar, dateLocale: arDate },
+];
+
+export const defaultLocale = "en";
+
+const STORAGE_KEY = "locale";
+
+export function findLocale(code: string): LocaleConfig | undefined {
+  return locales.find((l) => l.code === code);
+}
+
+// A saved choice wins, then the browser's preferred languages, then English
+export function detectLocale(): string {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && findLocale(saved)) return saved;
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const base = language.toLowerCase().split("-")[0];
+    if (findLocale(base)) return base;
+  }
+  return defaultLocale;
+}
+
+export function saveLocale(code: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, code);
+  } catch {
+    // Not persisting is fine; the choice still applies for this visit
+  }
+}
@@ -0,0 +1,112 @@
+import type { Messages } from "./en";
+
+export const ar: Messages = {
+  "gate.begin": "المس للبدء",
+  "music.play": "تشغيل الموسيقى",
+  "music.pause": "إيقاف الموسيقى مؤقتًا",
+
+  "hero.kicker": "رسالة لك",
+  "hero.title": "عيد حب سعيد",
+  "hero.readLetter": "اقرأ رسالتي",
+  "hero.scrollToLetter": "انتقل إلى الرسالة",
+
+  "letter.dateFormat": "d MMMM yyyy",
+  "letter.tearHint": "انقر واسحب للتمزيق",
+  "letter.tearHintTouch": "اسحب لتمزيقها",
+  "letter.tearHintPull": "اسحب، أو باعد بإصبعين لتمزيقها",
+  "letter.openWithoutTearing": "افتح الرسالة دون تمزيقها",
+  "letter.tearLabel": "غلاف الرسالة. اضغط مطولًا على المسافة أو Enter لتمزيقه.",
+  "letter.tearHintKeyboard": "اضغط مطولًا على المسافة للتمزيق",
+  "letter.openWithoutScratching": "افتح الرسالة دون خدش",
+  "letter.progressAnnouncement": "مفتوحة بنسبة {percent}%",
+  "letter.revealedAnnouncement": "الرسالة مفتوحة.",
+  "letter.sealTop": "مزّقني",
+  "letter.sealBottom": "",
+  "letter.scratchHint": "اخدش للكشف",
+  "letter.scratchSeal": "اخدشني",
+  "letter.envelopeHint": "انقر على الختم للفتح",
+  "letter.envelopeSeal": "افتحني",
+  "letter.envelopeLabel": "افتح الظرف",
+  "letter.shredHint": "مزّق القطع",
+  "letter.invalidTitle": "تعذّر فتح هذه الرسالة",
+  "letter.brokenLinkTitle": "تمزّقت هذه الرسالة في الطريق",
+
+  "letterError.incompleteLink": "يبدو هذا الرابط ناقصًا. اطلب من المرسل نسخ الرابط كاملًا مرة أخرى.",
+  "letterError.unreadableLink": "لا يحتوي هذا الرابط على رسالة يمكن قراءتها.",
+  "letterError.missing": "هذه المعلومة ناقصة",
+  "letterError.invalid": "هذه المعلومة غير صالحة",
+  "letterError.frontMatterFences": "يجب أن تبدأ الترويسة وتنتهي بسطر ---",
+  "letterError.frontMatterLine": 'يجب أن يكون سطر الترويسة {line} بالشكل "key: value"',
+  "letterError.unknownFrontMatterKey": 'مفتاح ترويسة غير معروف "{key}"',
+  "letterError.dateFormat": "يجب كتابة التاريخ بالشكل YYYY-MM-DD",
+  "letterError.dateInvalid": "التاريخ ليس يومًا حقيقيًا في التقويم",
+  "letterError.salutationRequired": "التحية مطلوبة",
+  "letterError.paragraphEmpty": "لا يمكن أن تكون الفقرة فارغة",
+  "letterError.noParagraphs": "تحتاج الرسالة إلى فقرة واحدة على الأقل",
+  "letterError.closingRequired": "الخاتمة مطلوبة",
+  "letterError.signatureRequired": "التوقيع مطلوب",
+  "letterError.recipientRequired": "اسم المستلم مطلوب",
+  "letterError.senderRequired": "اسم المرسل مطلوب",
+  "letterError.rawHtml": "لا يُسمح بـ HTML، استخدم Markdown بدلًا منه",
+  "letterError.colorFormat": "يجب كتابة الألوان بالشكل #rrggbb",
+  "letterError.monogramEmpty": "يحتاج الحرف المنقوش إلى حرف أول واحد على الأقل",
+  "letterError.monogramTooLong": "يتسع الحرف المنقوش لثلاثة أحرف أولى على الأكثر",
+  "letterError.emblemFormat": "يجب أن يكون الشعار صورة PNG أو JPEG أو WebP",
+  "letterError.emblemTooLarge": "صورة الشعار كبيرة جدًا",
+  "letterError.secretEmpty": "يحتاج السر إلى رسالة",
+  "letterError.secretTooLong": "السر طويل جدًا",
+  "letterError.shapeTooShort": "الشكل أقصر من أن يُتعرّف عليه",
+  "letterError.shapeTooLong": "في الشكل نقاط كثيرة جدًا",
+  "letterError.shapeNameTaken": "القلب والنجمة موجودان مسبقًا؛ اختر اسمًا آخر للشكل",
+  "letterError.tooManyShapes": "تتسع الرسالة لثلاثة أشكال خاصة بها على الأكثر",
+  "letterError.unknownGesture": "يجب أن تكون الإشارة السرية قلبًا أو نجمة أو أحد أشكال الرسالة",
+
+  "flower.title": "دع pirsu يشتري لك زهرة.",
+  "flower.subtitle": "أخبرني أين أرسلها، وستجد الزهرة طريقها إليك.",
+  "flower.address1": "العنوان، السطر 1",
+  "flower.address1Placeholder": "الشارع ورقم المبنى",
+  "flower.address2": "العنوان، السطر 2",
+  "flower.address2Placeholder": "الشقة، الطابق، إلخ.",
+  "flower.optional": "(اختياري)",
+  "flower.city": "المدينة",
+  "flower.cityPlaceholder": "المدينة",
+  "flower.state": "الولاية / المحافظة",
+  "flower.statePlaceholder": "الولاية",
+  "flower.postalCode": "الرمز البريدي",
+  "flower.postalCodePlaceholder": "الرمز البريدي",
+  "flower.address1Required": "العنوان مطلوب",
+  "flower.cityRequired": "المدينة مطلوبة",
+  "flower.stateRequired": "الولاية أو المحافظة مطلوبة",
+  "flower.postalCodeRequired": "الرمز البريدي مطلوب",
+  "flower.send": "إرسال",
+  "flower.sending": "جارٍ الإرسال…",
+  "flower.errorTitle": "حدث خطأ ما",
+  "flower.errorDescription": "يُرجى المحاولة مرة أخرى بعد قليل.",
+  "flower.offlineTitle": "تعذّر الإرسال",
+  "flower.offlineDescription": "يُرجى التحقق من اتصالك والمحاولة مرة أخرى.",
+  "flower.confirmTitle": "ستجد الزهرة طريقها إليك.",
+  "flower.confirmThanks": "شكرًا لك يا روحي.",
+
+  "replay.watch": "شاهد كيف فتحتها",
+  "replay.title": "كيف فُتحت الرسالة",
+  "replay.label": "إعادة عرض تمزيق غلاف الرسالة",
+  "replay.again": "إعادة التشغيل",
+  "replay.copyLink": "انسخ رابطًا لـ {name}",
+  "replay.linkCopied": "تم نسخ الرابط",
+  "replay.linkCopyFailed": "تعذّر نسخ الرابط",
+  "replay.brokenLinkTitle": "تعذّر تشغيل هذه الإعادة",
+  "replay.brokenLink": "يبدو أن الرابط غير مكتمل. اطلب نسخه مرة أخرى.",
+  "secret.title": "سرّ لك وحدك",
+  "secret.from": "خبّأ {name} هذا لتجده.",
+  "settings.open": "الإعدادات",
+  "settings.language": "اللغة",
+  "settings.motion": "الحركة",
+  "settings.motionSystem": "حسب جهازي",
+  "settings.motionReduce": "مخففة",
+  "settings.motionFull": "كاملة",
+  "settings.effects": "المؤثرات",
+  "settings.sfx": "صوت واهتزاز تمزيق الورق",
+
+  "notFound.message": "عذرًا! الصفحة غير موجودة",
+  "notFound.home": "العودة إلى الصفحة الرئيسية",
+};
@@ -0,0 +1,115 @@
+export const en = {
+  "gate.begin": "tap to begin",
+  "music.play": "Play music",
+  "music.pause": "Pause music",
+
+  "hero.kicker": "a letter for you",
+  "hero.title": "Happy Valentine's",
+  "hero.readLetter": "Read my letter",
+  "hero.scrollToLetter": "Scroll to letter",
+
+  // date-fns pattern for the date line at the top of the letter
+  "letter.dateFormat": "MMMM d, yyyy",
+  "letter.tearHint": "click & drag to tear",
+  "letter.tearHintTouch": "drag across to tear",
+  "letter.tearHintPull": "drag across, or pull apart with two fingers",
+  "letter.openWithoutTearing": "Open the letter without tearing",
+  "letter.tearLabel": "Letter cover. Hold Space or Enter to tear it open.",
+  "letter.tearHintKeyboard": "hold space to tear",
+  "letter.openWithoutScratching": "Open the letter without scratching",
+  "letter.progressAnnouncement": "{percent}% open",
+  "letter.revealedAnnouncement": "The letter is open.",
+  "letter.sealTop": "Tear",
+  "letter.sealBottom": "me",
+  "letter.scratchHint": "scratch to reveal",
+  "letter.scratchSeal": "Scratch me",
+  "letter.envelopeHint": "tap the seal to open",
+  "letter.envelopeSeal": "Open me",
+  "letter.envelopeLabel": "Open the envelope",
+  "letter.shredHint": "tear pieces away",
+  "letter.invalidTitle": "This letter couldn't be opened",
+  "letter.brokenLinkTitle": "This letter was torn in transit",
+
+  // Why a letter couldn't be read; {line} and {key} come from the letter's front matter
+  "letterError.incompleteLink": "This link looks incomplete. Ask the sender to copy the whole link again.",
+  "letterError.unreadableLink": "This link doesn't contain a readable letter.",
+  "letterError.missing": "This is missing",
+  "letterError.invalid": "This isn't valid",
+  "letterError.frontMatterFences": "Front matter must open and close with a --- line",
+  "letterError.frontMatterLine": 'Front matter line {line} should look like "key: value"',
+  "letterError.unknownFrontMatterKey": 'Unknown front matter key "{key}"',
+  "letterError.dateFormat": "Date must be written as YYYY-MM-DD",
+  "letterError.dateInvalid": "Date is not a real calendar day",
+  "letterError.salutationRequired": "Salutation is required",
+  "letterError.paragraphEmpty": "Paragraph cannot be empty",
+  "letterError.noParagraphs": "A letter needs at least one paragraph",
+  "letterError.closingRequired": "Closing is required",
+  "letterError.signatureRequired": "Signature is required",
+  "letterError.recipientRequired": "Recipient name is required",
+  "letterError.senderRequired": "Sender name is required",
+  "letterError.rawHtml": "Raw HTML isn't allowed, use Markdown instead",
+  "letterError.colorFormat": "Colors must be written as #rrggbb",
+  "letterError.monogramEmpty": "A monogram needs at least one initial",
+  "letterError.monogramTooLong": "A monogram fits up to three initials",
+  "letterError.emblemFormat": "Emblem must be a PNG, JPEG or WebP image",
+  "letterError.emblemTooLarge": "Emblem image is too large",
+  "letterError.secretEmpty": "The secret needs a message",
+  "letterError.secretTooLong": "The secret is too long",
+  "letterError.shapeTooShort": "Shape is too short to recognize",
+  "letterError.shapeTooLong": "Shape has too many points",
+  "letterError.shapeNameTaken": "Heart and star are built-in shapes; give yours another name",
+  "letterError.tooManyShapes": "A letter fits up to three shapes of its own",
+  "letterError.unknownGesture": "Secret gesture must be a heart, a star or one of the letter's shapes",
+
+  "flower.title": "Let pirsu buy you a flower.",
+  "flower.subtitle": "Tell me where to send it, and a bloom will find its way to you. hihi",
+  "flower.address1": "Address Line 1",
+  "flower.address1Placeholder": "Street address",
+  "flower.address2": "Address Line 2",
+  "flower.address2Placeholder": "Apt, suite, unit, etc.",
+  "flower.optional": "(optional)",
+  "flower.city": "City",
+  "flower.cityPlaceholder": "City",
+  "flower.state": "State / Province",
+  "flower.statePlaceholder": "State",
+  "flower.postalCode": "Postal Code",
+  "flower.postalCodePlaceholder": "Postal code",
+  "flower.address1Required": "Address is required",
+  "flower.cityRequired": "City is required",
+  "flower.stateRequired": "State / Province is required",
+  "flower.postalCodeRequired": "Postal code is required",
+  "flower.send": "Send",
+  "flower.sending": "Sending…",
+  "flower.errorTitle": "Something went wrong",
+  "flower.errorDescription": "Please try again in a moment.",
+  "flower.offlineTitle": "Couldn't send",
+  "flower.offlineDescription": "Please check your connection and try again.",
+  "flower.confirmTitle": "A flower will find its way to you.",
+  "flower.confirmThanks": "Thank you, Baby.",
+
+  "replay.watch": "Watch how you opened it",
+  "replay.title": "How the letter was opened",
+  "replay.label": "Replay of the letter cover being torn open",
+  "replay.again": "Play again",
+  "replay.copyLink": "Copy a link for {name}",
+  "replay.linkCopied": "Link copied",
+  "replay.linkCopyFailed": "Couldn't copy the link",
+  "replay.brokenLinkTitle": "This replay couldn't be played",
+  "replay.brokenLink": "The link looks incomplete. Ask for it to be copied again.",
+  "secret.title": "A secret, just for you",
+  "secret.from": "{name} hid this for you to find.",
+  "settings.open": "Settings",
+  "settings.language": "Language",
+  "settings.motion": "Motion",
+  "settings.motionSystem": "Match my device",
+  "settings.motionReduce": "Reduced",
+  "settings.motionFull": "Full",
+  "settings.effects": "Effects",
+  "settings.sfx": "Tearing sounds & vibration",
+
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
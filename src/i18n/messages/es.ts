@@ -0,0 +1,112 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  "gate.begin": "toca para comenzar",
+  "music.play": "Reproducir música",
+  "music.pause": "Pausar música",
+
+  "hero.kicker": "una carta para ti",
+  "hero.title": "Feliz San Valentín",
+  "hero.readLetter": "Lee mi carta",
+  "hero.scrollToLetter": "Ir a la carta",
+
+  "letter.dateFormat": "d 'de' MMMM 'de' yyyy",
+  "letter.tearHint": "haz clic y arrastra para rasgar",
+  "letter.tearHintTouch": "desliza para rasgar",
+  "letter.tearHintPull": "desliza, o separa con dos dedos",
+  "letter.openWithoutTearing": "Abrir la carta sin rasgarla",
+  "letter.tearLabel": "Cubierta de la carta. Mantén pulsado Espacio o Intro para rasgarla.",
+  "letter.tearHintKeyboard": "mantén espacio para rasgar",
+  "letter.openWithoutScratching": "Abrir la carta sin rascar",
+  "letter.progressAnnouncement": "{percent}% abierta",
+  "letter.revealedAnnouncement": "La carta está abierta.",
+  "letter.sealTop": "Rásgame",
+  "letter.sealBottom": "",
+  "letter.scratchHint": "rasca para descubrir",
+  "letter.scratchSeal": "Ráscame",
+  "letter.envelopeHint": "toca el sello para abrir",
+  "letter.envelopeSeal": "Ábreme",
+  "letter.envelopeLabel": "Abrir el sobre",
+  "letter.shredHint": "arranca trozos",
+  "letter.invalidTitle": "No se pudo abrir esta carta",
+  "letter.brokenLinkTitle": "Esta carta se rasgó en el camino",
+
+  "letterError.incompleteLink": "Este enlace parece incompleto. Pide a quien te lo envió que copie el enlace completo otra vez.",
+  "letterError.unreadableLink": "Este enlace no contiene una carta legible.",
+  "letterError.missing": "Falta este dato",
+  "letterError.invalid": "Este dato no es válido",
+  "letterError.frontMatterFences": "El encabezado debe abrirse y cerrarse con una línea ---",
+  "letterError.frontMatterLine": 'La línea {line} del encabezado debe tener la forma "clave: valor"',
+  "letterError.unknownFrontMatterKey": 'Clave de encabezado desconocida "{key}"',
+  "letterError.dateFormat": "La fecha debe escribirse como AAAA-MM-DD",
+  "letterError.dateInvalid": "La fecha no es un día real del calendario",
+  "letterError.salutationRequired": "Falta el saludo",
+  "letterError.paragraphEmpty": "El párrafo no puede estar vacío",
+  "letterError.noParagraphs": "Una carta necesita al menos un párrafo",
+  "letterError.closingRequired": "Falta la despedida",
+  "letterError.signatureRequired": "Falta la firma",
+  "letterError.recipientRequired": "Falta el nombre del destinatario",
+  "letterError.senderRequired": "Falta el nombre del remitente",
+  "letterError.rawHtml": "No se permite HTML; usa Markdown",
+  "letterError.colorFormat": "Los colores deben escribirse como #rrggbb",
+  "letterError.monogramEmpty": "Un monograma necesita al menos una inicial",
+  "letterError.monogramTooLong": "Un monograma admite hasta tres iniciales",
+  "letterError.emblemFormat": "El emblema debe ser una imagen PNG, JPEG o WebP",
+  "letterError.emblemTooLarge": "La imagen del emblema es demasiado grande",
+  "letterError.secretEmpty": "El secreto necesita un mensaje",
+  "letterError.secretTooLong": "El secreto es demasiado largo",
+  "letterError.shapeTooShort": "La figura es demasiado corta para reconocerla",
+  "letterError.shapeTooLong": "La figura tiene demasiados puntos",
+  "letterError.shapeNameTaken": "El corazón y la estrella ya vienen incluidos; ponle otro nombre a la figura",
+  "letterError.tooManyShapes": "Una carta admite hasta tres figuras propias",
+  "letterError.unknownGesture": "El gesto secreto debe ser un corazón, una estrella o una de las figuras de la carta",
+
+  "flower.title": "Deja que pirsu te regale una flor.",
+  "flower.subtitle": "Dime a dónde enviarla y una flor encontrará su camino hacia ti. jiji",
+  "flower.address1": "Dirección, línea 1",
+  "flower.address1Placeholder": "Calle y número",
+  "flower.address2": "Dirección, línea 2",
+  "flower.address2Placeholder": "Piso, puerta, etc.",
+  "flower.optional": "(opcional)",
+  "flower.city": "Ciudad",
+  "flower.cityPlaceholder": "Ciudad",
+  "flower.state": "Estado / Provincia",
+  "flower.statePlaceholder": "Estado",
+  "flower.postalCode": "Código postal",
+  "flower.postalCodePlaceholder": "Código postal",
+  "flower.address1Required": "La dirección es obligatoria",
+  "flower.cityRequired": "La ciudad es obligatoria",
+  "flower.stateRequired": "El estado o provincia es obligatorio",
+  "flower.postalCodeRequired": "El código postal es obligatorio",
+  "flower.send": "Enviar",
+  "flower.sending": "Enviando…",
+  "flower.errorTitle": "Algo salió mal",
+  "flower.errorDescription": "Inténtalo de nuevo en un momento.",
+  "flower.offlineTitle": "No se pudo enviar",
+  "flower.offlineDescription": "Revisa tu conexión e inténtalo de nuevo.",
+  "flower.confirmTitle": "Una flor encontrará su camino hacia ti.",
+  "flower.confirmThanks": "Gracias, amor.",
+
+  "replay.watch": "Mira cómo la abriste",
+  "replay.title": "Así se abrió la carta",
+  "replay.label": "Repetición de la cubierta de la carta rasgándose",
+  "replay.again": "Ver de nuevo",
+  "replay.copyLink": "Copiar un enlace para {name}",
+  "replay.linkCopied": "Enlace copiado",
+  "replay.linkCopyFailed": "No se pudo copiar el enlace",
+  "replay.brokenLinkTitle": "No se pudo reproducir esta repetición",
+  "replay.brokenLink": "El enlace parece incompleto. Pide que lo copien de nuevo.",
+  "secret.title": "Un secreto, solo para ti",
+  "secret.from": "{name} escondió esto para que lo encontraras.",
+  "settings.open": "Ajustes",
+  "settings.language": "Idioma",
+  "settings.motion": "Movimiento",
+  "settings.motionSystem": "Como mi dispositivo",
+  "settings.motionReduce": "Reducido",
+  "settings.motionFull": "Completo",
+  "settings.effects": "Efectos",
+  "settings.sfx": "Sonido y vibración al rasgar",
+
+  "notFound.message": "¡Uy! Página no encontrada",
+  "notFound.home": "Volver al inicio",
+};
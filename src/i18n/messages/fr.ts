@@ -0,0 +1,112 @@
+import type { Messages } from "./en";
+
+export const fr: Messages = {
+  "gate.begin": "touchez pour commencer",
+  "music.play": "Lire la musique",
+  "music.pause": "Mettre la musique en pause",
+
+  "hero.kicker": "une lettre pour toi",
+  "hero.title": "Joyeuse Saint-Valentin",
+  "hero.readLetter": "Lis ma lettre",
+  "hero.scrollToLetter": "Aller à la lettre",
+
+  "letter.dateFormat": "d MMMM yyyy",
+  "letter.tearHint": "cliquez et glissez pour déchirer",
+  "letter.tearHintTouch": "glissez pour déchirer",
+  "letter.tearHintPull": "glissez, ou écartez avec deux doigts",
+  "letter.openWithoutTearing": "Ouvrir la lettre sans la déchirer",
+  "letter.tearLabel": "Couverture de la lettre. Maintenez Espace ou Entrée pour la déchirer.",
+  "letter.tearHintKeyboard": "maintenez espace pour déchirer",
+  "letter.openWithoutScratching": "Ouvrir la lettre sans gratter",
+  "letter.progressAnnouncement": "{percent} % ouverte",
+  "letter.revealedAnnouncement": "La lettre est ouverte.",
+  "letter.sealTop": "Déchire",
+  "letter.sealBottom": "moi",
+  "letter.scratchHint": "grattez pour découvrir",
+  "letter.scratchSeal": "Gratte-moi",
+  "letter.envelopeHint": "touchez le sceau pour ouvrir",
+  "letter.envelopeSeal": "Ouvre-moi",
+  "letter.envelopeLabel": "Ouvrir l’enveloppe",
+  "letter.shredHint": "arrachez des morceaux",
+  "letter.invalidTitle": "Impossible d'ouvrir cette lettre",
+  "letter.brokenLinkTitle": "Cette lettre s'est déchirée en chemin",
+
+  "letterError.incompleteLink": "Ce lien semble incomplet. Demandez à l'expéditeur de copier à nouveau le lien en entier.",
+  "letterError.unreadableLink": "Ce lien ne contient pas de lettre lisible.",
+  "letterError.missing": "Cette information manque",
+  "letterError.invalid": "Cette information n'est pas valide",
+  "letterError.frontMatterFences": "L'en-tête doit s'ouvrir et se fermer par une ligne ---",
+  "letterError.frontMatterLine": "La ligne {line} de l'en-tête doit avoir la forme \"clé: valeur\"",
+  "letterError.unknownFrontMatterKey": "Clé d'en-tête inconnue \"{key}\"",
+  "letterError.dateFormat": "La date doit s'écrire AAAA-MM-JJ",
+  "letterError.dateInvalid": "La date n'est pas un vrai jour du calendrier",
+  "letterError.salutationRequired": "La formule d'appel est obligatoire",
+  "letterError.paragraphEmpty": "Un paragraphe ne peut pas être vide",
+  "letterError.noParagraphs": "Une lettre a besoin d'au moins un paragraphe",
+  "letterError.closingRequired": "La formule de politesse est obligatoire",
+  "letterError.signatureRequired": "La signature est obligatoire",
+  "letterError.recipientRequired": "Le nom du destinataire est obligatoire",
+  "letterError.senderRequired": "Le nom de l'expéditeur est obligatoire",
+  "letterError.rawHtml": "Le HTML n'est pas autorisé, utilisez Markdown",
+  "letterError.colorFormat": "Les couleurs doivent s'écrire #rrggbb",
+  "letterError.monogramEmpty": "Un monogramme a besoin d'au moins une initiale",
+  "letterError.monogramTooLong": "Un monogramme tient en trois initiales au plus",
+  "letterError.emblemFormat": "L'emblème doit être une image PNG, JPEG ou WebP",
+  "letterError.emblemTooLarge": "L'image de l'emblème est trop lourde",
+  "letterError.secretEmpty": "Le secret a besoin d'un message",
+  "letterError.secretTooLong": "Le secret est trop long",
+  "letterError.shapeTooShort": "La forme est trop courte pour être reconnue",
+  "letterError.shapeTooLong": "La forme a trop de points",
+  "letterError.shapeNameTaken": "Le cœur et l'étoile existent déjà ; donnez un autre nom à la forme",
+  "letterError.tooManyShapes": "Une lettre accepte au plus trois formes à elle",
+  "letterError.unknownGesture": "Le geste secret doit être un cœur, une étoile ou l'une des formes de la lettre",
+
+  "flower.title": "Laisse pirsu t'offrir une fleur.",
+  "flower.subtitle": "Dis-moi où l'envoyer, et une fleur trouvera son chemin jusqu'à toi. hihi",
+  "flower.address1": "Adresse, ligne 1",
+  "flower.address1Placeholder": "Numéro et rue",
+  "flower.address2": "Adresse, ligne 2",
+  "flower.address2Placeholder": "Appartement, étage, etc.",
+  "flower.optional": "(facultatif)",
+  "flower.city": "Ville",
+  "flower.cityPlaceholder": "Ville",
+  "flower.state": "Région / Province",
+  "flower.statePlaceholder": "Région",
+  "flower.postalCode": "Code postal",
+  "flower.postalCodePlaceholder": "Code postal",
+  "flower.address1Required": "L'adresse est obligatoire",
+  "flower.cityRequired": "La ville est obligatoire",
+  "flower.stateRequired": "La région ou province est obligatoire",
+  "flower.postalCodeRequired": "Le code postal est obligatoire",
+  "flower.send": "Envoyer",
+  "flower.sending": "Envoi…",
+  "flower.errorTitle": "Un problème est survenu",
+  "flower.errorDescription": "Réessaie dans un instant.",
+  "flower.offlineTitle": "Envoi impossible",
+  "flower.offlineDescription": "Vérifie ta connexion et réessaie.",
+  "flower.confirmTitle": "Une fleur trouvera son chemin jusqu'à toi.",
+  "flower.confirmThanks": "Merci, mon cœur.",
+
+  "replay.watch": "Revoir comment vous l'avez ouverte",
+  "replay.title": "Comment la lettre a été ouverte",
+  "replay.label": "Rediffusion de la couverture de la lettre déchirée",
+  "replay.again": "Revoir",
+  "replay.copyLink": "Copier un lien pour {name}",
+  "replay.linkCopied": "Lien copié",
+  "replay.linkCopyFailed": "Impossible de copier le lien",
+  "replay.brokenLinkTitle": "Cette rediffusion n'a pas pu être lue",
+  "replay.brokenLink": "Le lien semble incomplet. Demandez qu'on le copie à nouveau.",
+  "secret.title": "Un secret, rien que pour vous",
+  "secret.from": "{name} a caché ceci pour que vous le trouviez.",
+  "settings.open": "Réglages",
+  "settings.language": "Langue",
+  "settings.motion": "Animations",
+  "settings.motionSystem": "Comme mon appareil",
+  "settings.motionReduce": "Réduites",
+  "settings.motionFull": "Complètes",
+  "settings.effects": "Effets",
+  "settings.sfx": "Son et vibration du papier",
+
+  "notFound.message": "Oups ! Page introuvable",
+  "notFound.home": "Retour à l'accueil",
+};
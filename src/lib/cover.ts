@@ -0,0 +1,144 @@
+// Turn a letter's cover design into the colors the openers paint with. Every shade is
+// derived from the two base colors, so any choice keeps the paper and wax consistent.
+import {
+  coverDesignSchema,
+  type CoverDesign,
+  type CoverGradient,
+  type PaperKind,
+  type SealContent,
+} from "@/lib/letter";
+
+export interface Hsl {
+  h: number; // 0-360
+  s: number; // 0-100
+  l: number; // 0-100
+}
+
+export interface SealPalette {
+  highlight: string;
+  shade: string;
+  shadow: string;
+  rim: string;
+  // Darker wax for lettering pressed into the seal
+  ink: string;
+  content: SealContent;
+}
+
+export interface CoverPalette {
+  gradient: CoverGradient;
+  // Gradient stops from the lit corner to the shaded one
+  stops: [number, string][];
+  // CSS background for the cover
+  background: string;
+  vignette: string;
+  // The vignette's edge color, and the same color fully transparent (for canvas)
+  vignetteColor: string;
+  vignetteFade: string;
+  paper: PaperKind;
+  // Opacity of the paper grain at its darkest and lightest (see lib/paper)
+  textureStrength: number;
+  // Pale inner fibers a rip exposes, and the shadow in the gap as it opens
+  core: string;
+  edgeShadow: string;
+  // The envelope's inside, its folds and the shadows it casts
+  inside: string;
+  crease: string;
+  dropShadow: string;
+  seal: SealPalette;
+}
+
+// Grain opacity at full texture density
+const MAX_TEXTURE_STRENGTH = 0.6;
+
+export function hexToHsl(hex: string): Hsl {
+  const value = parseInt(hex.slice(1), 16);
+  const r = ((value >> 16) & 0xff) / 255;
+  const g = ((value >> 8) & 0xff) / 255;
+  const b = (value & 0xff) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  let h = 0;
+  let s = 0;
+  if (d > 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === r) h = ((g - b) / d + 6) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+  }
+  return { h: Math.round(h * 60) % 360, s: Math.round(s * 100), l: Math.round(l * 100) };
+}
+
+// CSS color for `base` shifted by the given amounts, kept within range
+export function shade(base: Hsl, dh: number, ds: number, dl: number, alpha?: number): string {
+  const h = (base.h + dh + 360) % 360;
+  const s = Math.max(0, Math.min(100, base.s + ds));
+  const l = Math.max(0, Math.min(100, base.l + dl));
+  return alpha === undefined ? `hsl(${h} ${s}% ${l}%)` : `hsl(${h} ${s}% ${l}% / ${alpha})`;
+}
+
+function cssGradient(gradient: CoverGradient, stops: [number, string][]): string {
+  const list = stops.map(([offset, color]) => `${color} ${offset * 100}%`).join(", ");
+  if (gradient === "flat") return stops[0][1];
+  if (gradient === "radial") return `radial-gradient(circle at 30% 25%, ${list})`;
+  return `linear-gradient(${gradient === "vertical" ? 180 : 135}deg, ${list})`;
+}
+
+const defaultDesign = coverDesignSchema.parse({});
+
+// Fill in whatever a partly edited design leaves out
+export function withCoverDefaults(design?: Partial<CoverDesign>): CoverDesign {
+  return {
+    ...defaultDesign,
+    ...design,
+    seal: { ...defaultDesign.seal, ...design?.seal },
+  };
+}
+
+export function coverPalette(design?: CoverDesign): CoverPalette {
+  const { color, gradient, paper: kind, textureDensity, seal } = design ?? defaultDesign;
+  const paper = hexToHsl(color);
+  const wax = hexToHsl(seal.color);
+
+  const stops: [number, string][] =
+    gradient === "flat"
+      ? [
+          [0, shade(paper, 0, 0, 0)],
+          [1, shade(paper, 0, 0, 0)],
+        ]
+      : [
+          [0, shade(paper, 0, 0, 0)],
+          [0.4, shade(paper, 0, -5, -4)],
+          [1, shade(paper, -2, -7, -8)],
+        ];
+  const vignetteColor = shade(paper, 0, -5, -17, 0.15);
+
+  return {
+    gradient,
+    stops,
+    background: cssGradient(gradient, stops),
+    vignette: `radial-gradient(ellipse at center, transparent 40%, ${vignetteColor} 100%)`,
+    vignetteColor,
+    vignetteFade: shade(paper, 0, -5, -17, 0),
+    paper: kind,
+    textureStrength: textureDensity * MAX_TEXTURE_STRENGTH,
+    core: shade(paper, 0, -35, 48),
+    edgeShadow: shade(paper, 0, -15, -17, 0.6),
+    inside: `linear-gradient(180deg, ${shade(paper, -2, -15, -16)}, ${shade(paper, 0, -10, -10)})`,
+    crease: shade(paper, 0, -15, -17, 0.35),
+    dropShadow: shade(paper, 0, -10, -22, 0.4),
+    seal: {
+      highlight: shade(wax, 0, 5, 8),
+      shade: shade(wax, 0, 0, -7),
+      shadow: shade(wax, 0, -15, -12, 0.5),
+      rim: shade(wax, 0, -5, 18, 0.3),
+      ink: shade(wax, 0, 0, -15),
+      content: seal.content,
+    },
+  };
+}
+
+// The cover every letter gets unless it says otherwise
+export const DEFAULT_COVER_PALETTE = coverPalette();
@@ -0,0 +1,37 @@
+// Telling taps, tears and page scrolls apart on the cover. Distances are in CSS
+// pixels and times in ms, as recorded from pointer events.
+import type { PointerSample } from "@/lib/physics";
+
+export type GestureIntent = "pending" | "tap" | "tear" | "scroll" | "none";
+
+// A press that stays within this distance and time is a tap
+export const TAP_MAX_DISTANCE = 10;
+export const TAP_MAX_DURATION = 300;
+// Movement needed before a press turns into a drag
+export const DRAG_SLOP = 8;
+// On touch, drags this much steeper than they are wide are page scrolls
+export const SCROLL_STEEPNESS = 2;
+
+// Decide what a press is doing from where it started and where the pointer is now.
+// Until it moves past the slop a drag stays "pending"; once released it is either a
+// tap, a drag that was already decided, or "none" (a long press that went nowhere).
+export function classifyGesture(
+  start: PointerSample,
+  current: PointerSample,
+  pointerType: string,
+  released: boolean,
+): GestureIntent {
+  const dx = current.x - start.x;
+  const dy = current.y - start.y;
+  const distance = Math.hypot(dx, dy);
+
+  if (released) {
+    if (distance <= TAP_MAX_DISTANCE && current.t - start.t <= TAP_MAX_DURATION) return "tap";
+    if (distance < DRAG_SLOP) return "none";
+  } else if (distance < DRAG_SLOP) {
+    return "pending";
+  }
+
+  if (pointerType === "touch" && Math.abs(dy) > Math.abs(dx) * SCROLL_STEEPNESS) return "scroll";
+  return "tear";
+}
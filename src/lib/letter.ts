@@ -0,0 +1,273 @@
+import { z } from "zod";
+import { format, isValid, parseISO, type Locale } from "date-fns";
+import { containsRawHtml, parseFrontMatter, splitParagraphs } from "@/lib/markdown";
+import { en, type MessageKey } from "@/i18n/messages/en";
+import type { I18nContextValue } from "@/i18n/context";
+
+// Letters are validated where they're read, so their errors are message keys (see
+// letterError.* in i18n/messages) for the reader's language rather than English text
+export interface LetterError {
+  key: MessageKey;
+  vars?: Record<string, string | number>;
+  // The field at fault, like "paragraphs.2"
+  path?: string;
+}
+
+// Checks the key exists while it sits in a schema as a plain message
+const errorKey = (key: MessageKey) => key;
+
+const isMessageKey = (message: string): message is MessageKey =>
+  Object.prototype.hasOwnProperty.call(en, message);
+
+// How the tear opener can be torn: "drag" with a single pointer, or "pull", which also
+// lets two fingers pulled apart on a touch screen tear between them
+export const tearModes = ["drag", "pull"] as const;
+
+// Ways of opening the cover over the letter (see components/openers)
+export const openerSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("tear"),
+    // Named tear profile (see lib/tearProfiles); the classic tear when omitted or unknown
+    profile: z.string().trim().min(1).max(40).optional(),
+    // Single-pointer dragging only when omitted
+    mode: z.enum(tearModes).optional(),
+  }),
+  z.object({
+    type: z.literal("scratch"),
+    // Share of the cover that must be scratched away before the letter reveals
+    threshold: z.number().min(0.1).max(0.95).default(0.55),
+  }),
+  z.object({ type: z.literal("envelope") }),
+  z.object({
+    type: z.literal("shred"),
+    // Share of the cover that must fall away before the letter reveals
+    threshold: z.number().min(0.1).max(0.95).default(0.6),
+  }),
+]);
+
+export type OpenerConfig = z.infer<typeof openerSchema>;
+
+export type OpenerType = OpenerConfig["type"];
+
+export type TearMode = (typeof tearModes)[number];
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, errorKey("letterError.colorFormat"));
+
+export const coverGradients = ["diagonal", "vertical", "radial", "flat"] as const;
+
+// Kinds of paper the cover and letter can be made of (see lib/paper)
+export const paperKinds = ["handmade", "kraft", "linen"] as const;
+
+// Emblems travel inside share links, so they have to stay small
+export const MAX_EMBLEM_LENGTH = 24_000;
+
+// What's pressed into the wax: the opener's own words ("Tear me"), initials, or a picture
+export const sealContentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("words") }),
+  z.object({
+    type: z.literal("monogram"),
+    initials: z
+      .string()
+      .trim()
+      .min(1, errorKey("letterError.monogramEmpty"))
+      .max(3, errorKey("letterError.monogramTooLong")),
+  }),
+  z.object({
+    type: z.literal("emblem"),
+    image: z
+      .string()
+      .regex(
+        /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/,
+        errorKey("letterError.emblemFormat"),
+      )
+      .max(MAX_EMBLEM_LENGTH, errorKey("letterError.emblemTooLarge")),
+  }),
+]);
+
+// The look of the paper cover and its wax seal; defaults give the burgundy cover
+export const coverDesignSchema = z.object({
+  // Base paper color; the gradient is shaded from it
+  color: hexColor.default("#a63044"),
+  gradient: z.enum(coverGradients).default("diagonal"),
+  paper: z.enum(paperKinds).default("handmade"),
+  // 0 is smooth paper, 1 heavily textured
+  textureDensity: z.number().min(0).max(1).default(0.5),
+  seal: z
+    .object({
+      color: hexColor.default("#b1253d"),
+      content: sealContentSchema.default({ type: "words" }),
+    })
+    .default({}),
+});
+
+// Shapes every letter recognizes (see lib/unistroke)
+export const builtInGestures = ["heart", "star"] as const;
+
+// Shapes of the sender's own can't take these names, which always mean the built-in shape
+export const isBuiltInGesture = (name: string) =>
+  (builtInGestures as readonly string[]).includes(name);
+
+export const MAX_SECRET_LENGTH = 1000;
+
+// Rebuilt after parsing so shape points type as plain points, which the recognizer and
+// drawing code take, instead of the all-optional fields zod infers without strict mode
+const strokePointSchema = z
+  .object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) })
+  .transform(({ x, y }) => ({ x, y }));
+
+// A hidden message the recipient unlocks by drawing a shape on the cover or letter
+export const letterSecretSchema = z
+  .object({
+    // A built-in shape or the name of one of the sender's own
+    gesture: z.string().trim().min(1).default("heart"),
+    message: z
+      .string()
+      .trim()
+      .min(1, errorKey("letterError.secretEmpty"))
+      .max(MAX_SECRET_LENGTH, errorKey("letterError.secretTooLong"))
+      .refine((m) => !containsRawHtml(m), errorKey("letterError.rawHtml")),
+    // Shapes the sender drew themselves, e.g. their initials; points normalized to 0-1
+    gestures: z
+      .array(
+        z.object({
+          name: z
+            .string()
+            .trim()
+            .min(1)
+            .max(24)
+            .refine((name) => !isBuiltInGesture(name), errorKey("letterError.shapeNameTaken")),
+          points: z
+            .array(strokePointSchema)
+            .min(8, errorKey("letterError.shapeTooShort"))
+            .max(96, errorKey("letterError.shapeTooLong")),
+        }),
+      )
+      .max(3, errorKey("letterError.tooManyShapes"))
+      .default([]),
+  })
+  .refine(
+    (s) =>
+      isBuiltInGesture(s.gesture) ||
+      s.gestures.some((g) => g.name === s.gesture),
+    {
+      message: errorKey("letterError.unknownGesture"),
+      path: ["gesture"],
+    },
+  );
+
+export type SealContent = z.infer<typeof sealContentSchema>;
+
+export type CoverDesign = z.infer<typeof coverDesignSchema>;
+
+export type CoverGradient = CoverDesign["gradient"];
+
+export type PaperKind = CoverDesign["paper"];
+
+export type BuiltInGesture = (typeof builtInGestures)[number];
+
+export type LetterSecret = z.infer<typeof letterSecretSchema>;
+
+export const letterContentSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, errorKey("letterError.dateFormat"))
+    .refine((value) => isValid(parseISO(value)), errorKey("letterError.dateInvalid")),
+  salutation: z.string().trim().min(1, errorKey("letterError.salutationRequired")),
+  paragraphs: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, errorKey("letterError.paragraphEmpty"))
+        .refine((p) => !containsRawHtml(p), errorKey("letterError.rawHtml")),
+    )
+    .min(1, errorKey("letterError.noParagraphs")),
+  closing: z.string().trim().min(1, errorKey("letterError.closingRequired")),
+  signature: z.string().trim().min(1, errorKey("letterError.signatureRequired")),
+  recipientName: z.string().trim().min(1, errorKey("letterError.recipientRequired")),
+  senderName: z.string().trim().min(1, errorKey("letterError.senderRequired")),
+  // Presentation; the tear opener is used when omitted
+  opener: openerSchema.optional(),
+  cover: coverDesignSchema.optional(),
+  secret: letterSecretSchema.optional(),
+});
+
+export type LetterContent = z.infer<typeof letterContentSchema>;
+
+export interface LetterParseResult {
+  letter: LetterContent | null;
+  errors: LetterError[];
+}
+
+// Turn zod issues into letter errors; zod's own messages (wrong types, unknown openers)
+// are English, so those only say whether the field is missing or wrong
+export function formatLetterErrors(error: z.ZodError): LetterError[] {
+  return error.issues.map((issue) => {
+    const missing = issue.code === "invalid_type" && issue.received === "undefined";
+    const key = isMessageKey(issue.message)
+      ? issue.message
+      : missing
+        ? "letterError.missing"
+        : "letterError.invalid";
+    return issue.path.length > 0 ? { key, path: issue.path.join(".") } : { key };
+  });
+}
+
+// A schema message in the reader's language, as the composer's fields show them; zod's
+// own messages aren't keys and stay as they are
+export function describeLetterMessage(message: string, t: I18nContextValue["t"]): string {
+  return isMessageKey(message) ? t(message) : message;
+}
+
+// A letter error in the reader's language, like "paragraphs.2: Paragraph cannot be empty"
+export function describeLetterError(
+  { key, vars, path }: LetterError,
+  t: I18nContextValue["t"],
+): string {
+  const message = t(key, vars);
+  return path ? `${path}: ${message}` : message;
+}
+
+// Validate an untrusted letter (JSON import, shared link, etc.)
+export function parseLetter(input: unknown): LetterParseResult {
+  const result = letterContentSchema.safeParse(input);
+  if (!result.success) {
+    return { letter: null, errors: formatLetterErrors(result.error) };
+  }
+  return { letter: result.data, errors: [] };
+}
+
+// Front matter keys of a Markdown letter file and the fields they fill
+const frontMatterFields: Record<string, keyof LetterContent> = {
+  date: "date",
+  salutation: "salutation",
+  closing: "closing",
+  signature: "signature",
+  recipient: "recipientName",
+  sender: "senderName",
+};
+
+// Validate a Markdown letter: front matter for the details, the body for the paragraphs
+export function parseLetterMarkdown(source: string): LetterParseResult {
+  const { data, body, errors } = parseFrontMatter(source);
+  const letter: Record<string, unknown> = { paragraphs: splitParagraphs(body) };
+  // A tear profile on its own implies the tear opener
+  const opener: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const field = frontMatterFields[key];
+    if (field) letter[field] = value;
+    else if (key === "opener") opener.type = value;
+    else if (key === "tear-profile") opener.profile = value;
+    else if (key === "tear-mode") opener.mode = value;
+    else errors.push({ key: "letterError.unknownFrontMatterKey", vars: { key } });
+  }
+  if (Object.keys(opener).length > 0) letter.opener = { type: "tear", ...opener };
+
+  const result = parseLetter(letter);
+  return errors.length > 0 ? { letter: null, errors: [...errors, ...result.errors] } : result;
+}
+
+export function formatLetterDate(date: string, pattern = "MMMM d, yyyy", locale?: Locale): string {
+  return format(parseISO(date), pattern, { locale });
+}
@@ -0,0 +1,138 @@
+// A deliberately tiny Markdown dialect for letters. Supported:
+//   *emphasis* / _emphasis_, **strong**, ~script~ (rendered in the script font),
+//   single newlines as line breaks, and "> " block quotes.
+// Raw HTML is never interpreted; letters containing it are rejected on validation.
+import type { LetterError } from "@/lib/letter";
+
+export type InlineNode =
+  | { type: "text"; value: string }
+  | { type: "break" }
+  | { type: "emphasis" | "strong" | "script"; children: InlineNode[] };
+
+export type BlockNode = {
+  type: "paragraph" | "blockquote";
+  children: InlineNode[];
+};
+
+const MARKERS: [string, "emphasis" | "strong" | "script"][] = [
+  ["**", "strong"],
+  ["*", "emphasis"],
+  ["_", "emphasis"],
+  ["~", "script"],
+];
+
+const ESCAPABLE = /[\\*_~>]/;
+
+export function containsRawHtml(text: string): boolean {
+  return /<\/?[a-zA-Z][^>]*>|<!--/.test(text);
+}
+
+// Find the closing marker, skipping escapes and (for single-char markers) doubled ones
+function findClosing(text: string, marker: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (marker.length === 1 && text.startsWith(marker + marker, i)) {
+      i += 2;
+      continue;
+    }
+    if (text.startsWith(marker, i)) return i;
+    i++;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", value: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+    const match = MARKERS.find(([marker]) => text.startsWith(marker, i));
+    if (match) {
+      const [marker, type] = match;
+      const start = i + marker.length;
+      const close = findClosing(text, marker, start);
+      if (close > start) {
+        flush();
+        nodes.push({ type, children: parseInline(text.slice(start, close)) });
+        i = close + marker.length;
+        continue;
+      }
+    }
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+// Parse one paragraph of letter text (paragraphs are separated by blank lines)
+export function parseBlock(text: string): BlockNode {
+  const lines = text.trim().split("\n");
+  if (lines.every((line) => line.startsWith(">"))) {
+    const inner = lines.map((line) => line.replace(/^>\s?/, "")).join("\n");
+    return { type: "blockquote", children: parseInline(inner) };
+  }
+  return { type: "paragraph", children: parseInline(lines.join("\n")) };
+}
+
+export function splitParagraphs(body: string): string[] {
+  return body
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+export interface FrontMatter {
+  data: Record<string, string>;
+  body: string;
+  errors: LetterError[];
+}
+
+// Flat "key: value" front matter between --- fences; quotes around values are optional
+export function parseFrontMatter(source: string): FrontMatter {
+  const normalized = source.replace(/\r\n/g, "\n");
+  const match = /^---\n([\s\S]*?)\n---\n?/.exec(normalized);
+  if (!match) {
+    return {
+      data: {},
+      body: normalized,
+      errors: [{ key: "letterError.frontMatterFences" }],
+    };
+  }
+
+  const data: Record<string, string> = {};
+  const errors: LetterError[] = [];
+  match[1].split("\n").forEach((line, i) => {
+    if (!line.trim() || line.trim().startsWith("#")) return;
+    const pair = /^([A-Za-z][\w-]*):\s*(.*)$/.exec(line);
+    if (!pair) {
+      errors.push({ key: "letterError.frontMatterLine", vars: { line: i + 2 } });
+      return;
+    }
+    data[pair[1]] = pair[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+  });
+
+  return { data, body: normalized.slice(match[0].length), errors };
+}
@@ -0,0 +1,173 @@
+// Procedural paper grain: seeded value noise for mottling, fibers laid along a noise
+// flow field, and the fine lines a paper mould leaves behind. Textures are square
+// tiles that wrap seamlessly, so one small tile covers any surface.
+import type { PaperKind } from "@/lib/letter";
+import { seededRandom } from "@/lib/random";
+
+export interface PaperPreset {
+  // Cloudy light and dark patches, and the size of the largest ones in lattice cells
+  mottling: number;
+  mottleCells: number;
+  // Fibers per tile, their length in pixels and how dark or light each one is
+  fibers: number;
+  fiberLength: number;
+  fiberContrast: number;
+  // Fine parallel "laid" lines and the sparser chain lines across them
+  laid: number;
+  laidSpacing: number;
+  chainSpacing: number;
+  // Crossed threads, as on linen finish stationery
+  weave: number;
+  weaveSpacing: number;
+}
+
+export const paperPresets: Record<PaperKind, PaperPreset> = {
+  // Long fibers and soft clouds, with a faint mould pattern
+  handmade: {
+    mottling: 0.45,
+    mottleCells: 4,
+    fibers: 260,
+    fiberLength: 18,
+    fiberContrast: 0.5,
+    laid: 0.12,
+    laidSpacing: 4,
+    chainSpacing: 64,
+    weave: 0,
+    weaveSpacing: 4,
+  },
+  // Coarse, blotchy pulp full of short dark flecks
+  kraft: {
+    mottling: 0.6,
+    mottleCells: 8,
+    fibers: 700,
+    fiberLength: 7,
+    fiberContrast: 0.7,
+    laid: 0,
+    laidSpacing: 4,
+    chainSpacing: 64,
+    weave: 0,
+    weaveSpacing: 4,
+  },
+  // Even, crosshatched threads and very little else
+  linen: {
+    mottling: 0.15,
+    mottleCells: 4,
+    fibers: 60,
+    fiberLength: 10,
+    fiberContrast: 0.3,
+    laid: 0,
+    laidSpacing: 4,
+    chainSpacing: 64,
+    weave: 0.45,
+    weaveSpacing: 4,
+  },
+};
+
+// Side of a texture tile in pixels; every spacing above divides it so the tile wraps
+export const PAPER_TILE_SIZE = 256;
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+// Value noise on a `cells` × `cells` lattice that repeats every `size` pixels.
+// Returns a sampler giving values in [-1, 1].
+export function valueNoise(seed: number, cells: number, size: number) {
+  const rng = seededRandom(seed);
+  const lattice = Float32Array.from({ length: cells * cells }, () => rng() * 2 - 1);
+  const at = (i: number, j: number) =>
+    lattice[(((j % cells) + cells) % cells) * cells + (((i % cells) + cells) % cells)];
+
+  return (x: number, y: number) => {
+    const gx = (x / size) * cells;
+    const gy = (y / size) * cells;
+    const i = Math.floor(gx);
+    const j = Math.floor(gy);
+    const tx = smooth(gx - i);
+    const ty = smooth(gy - j);
+    const top = at(i, j) + (at(i + 1, j) - at(i, j)) * tx;
+    const bottom = at(i, j + 1) + (at(i + 1, j + 1) - at(i, j + 1)) * tx;
+    return top + (bottom - top) * ty;
+  };
+}
+
+// Fractal noise: octaves of value noise, each twice as fine and half as strong
+export function fractalNoise(seed: number, cells: number, size: number, octaves = 4) {
+  const layers = Array.from({ length: octaves }, (_, o) =>
+    valueNoise(seed + o * 101, cells * 2 ** o, size),
+  );
+  const total = 2 - 0.5 ** (octaves - 1);
+  return (x: number, y: number) => {
+    let sum = 0;
+    for (let o = 0; o < octaves; o++) sum += layers[o](x, y) * 0.5 ** o;
+    return sum / total;
+  };
+}
+
+// Grain of a tile as lightness offsets in [-1, 1], row by row
+export function paperGrain(
+  preset: PaperPreset,
+  seed = 12345,
+  size = PAPER_TILE_SIZE,
+): Float32Array {
+  const grain = new Float32Array(size * size);
+  const mottle = fractalNoise(seed, preset.mottleCells, size);
+  const threads = valueNoise(seed + 7, size / preset.weaveSpacing, size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let v = mottle(x, y) * preset.mottling;
+      if (preset.laid > 0) {
+        v += Math.cos((2 * Math.PI * y) / preset.laidSpacing) * preset.laid * 0.5;
+        if (x % preset.chainSpacing < 2) v -= preset.laid;
+      }
+      if (preset.weave > 0) {
+        // Each thread is a little thicker or thinner than its neighbours
+        const across = Math.cos((2 * Math.PI * y) / preset.weaveSpacing) * (0.6 + threads(0, y));
+        const down = Math.cos((2 * Math.PI * x) / preset.weaveSpacing) * (0.6 + threads(x, 0));
+        v += (across + down) * preset.weave * 0.5;
+      }
+      grain[y * size + x] = v;
+    }
+  }
+
+  // Fibers drift along a smooth flow field, so neighbours run roughly the same way
+  const rng = seededRandom(seed + 13);
+  const flow = valueNoise(seed + 29, 3, size);
+  for (let f = 0; f < preset.fibers; f++) {
+    let x = rng() * size;
+    let y = rng() * size;
+    const tone = (rng() < 0.7 ? -1 : 1) * preset.fiberContrast * (0.4 + rng() * 0.6);
+    const length = preset.fiberLength * (0.5 + rng());
+    const bend = rng() * Math.PI;
+    for (let step = 0; step < length; step++) {
+      const angle = flow(x, y) * Math.PI + bend;
+      const i = ((Math.floor(y) % size) + size) % size;
+      const j = ((Math.floor(x) % size) + size) % size;
+      grain[i * size + j] += tone;
+      x += Math.cos(angle);
+      y += Math.sin(angle);
+    }
+  }
+
+  for (let i = 0; i < grain.length; i++) grain[i] = Math.max(-1, Math.min(1, grain[i]));
+  return grain;
+}
+
+// RGBA pixels for a tile: white where the grain is light, black where it is dark, with
+// alpha from its strength so it can be laid over paper of any color
+export function paperPixels(
+  preset: PaperPreset,
+  strength: number,
+  seed = 12345,
+  size = PAPER_TILE_SIZE,
+): Uint8ClampedArray {
+  const grain = paperGrain(preset, seed, size);
+  const pixels = new Uint8ClampedArray(size * size * 4);
+  for (let i = 0; i < grain.length; i++) {
+    const tone = grain[i] > 0 ? 255 : 0;
+    pixels[i * 4] = tone;
+    pixels[i * 4 + 1] = tone;
+    pixels[i * 4 + 2] = tone;
+    pixels[i * 4 + 3] = Math.abs(grain[i]) * strength * 255;
+  }
+  return pixels;
+}
@@ -0,0 +1,142 @@
+// Small rigid-body simulation for torn cover pieces. Positions are CSS pixels relative
+// to the piece's resting place, rotation is in degrees, time in seconds. Everything
+// steps at a fixed rate, so the same tear always plays out the same way.
+
+export interface Vector {
+  x: number;
+  y: number;
+}
+
+// A pointer position (px) and when it was recorded (ms, e.g. event.timeStamp)
+export interface PointerSample extends Vector {
+  t: number;
+}
+
+export interface BodyState {
+  x: number;
+  y: number;
+  rotation: number;
+  vx: number; // px/s
+  vy: number; // px/s
+  spin: number; // deg/s
+}
+
+export interface SimulationOptions {
+  gravity?: number; // px/s²
+  drag?: number; // share of velocity lost per second
+  timeStep?: number;
+  maxDuration?: number;
+  // Stop once the piece has fallen this far (e.g. past the bottom of the screen)
+  floor?: number;
+}
+
+export interface Flight {
+  x: number[];
+  y: number[];
+  rotate: number[];
+  // Keyframe offsets (0-1) for framer-motion's `times`
+  times: number[];
+  duration: number;
+}
+
+const GRAVITY = 2400;
+const DRAG = 0.8;
+const TIME_STEP = 1 / 60;
+const MAX_DURATION = 2.5;
+// Share of the hand's velocity a piece picks up
+const FOLLOW = 0.6;
+// Speed (px/s) at which the two pieces spring apart from the tear
+const SEPARATION = 140;
+// Share of the pull's turning effect that becomes spin, and a cap on it (deg/s)
+const SPIN_SHARE = 0.5;
+const MAX_SPIN = 720;
+
+// Velocity (px/s) of the pointer over the last `window` ms of a gesture
+export function releaseVelocity(samples: PointerSample[], window = 80): Vector {
+  if (samples.length < 2) return { x: 0, y: 0 };
+  const last = samples[samples.length - 1];
+  const first = samples.find((s) => last.t - s.t <= window) ?? samples[0];
+  const dt = (last.t - first.t) / 1000;
+  if (dt <= 0) return { x: 0, y: 0 };
+  return { x: (last.x - first.x) / dt, y: (last.y - first.y) / dt };
+}
+
+// Starting motion for a torn piece: it follows the hand, springs away from the tear,
+// and spins about its centroid according to where the hand pulled it
+export function launchPiece(
+  centroid: Vector,
+  tearCenter: Vector,
+  grip: Vector,
+  velocity: Vector,
+): BodyState {
+  const nx = centroid.x - tearCenter.x;
+  const ny = centroid.y - tearCenter.y;
+  const nLen = Math.hypot(nx, ny) || 1;
+
+  // Angular velocity of a point pulled at `grip`: (r × v) / |r|²
+  const rx = grip.x - centroid.x;
+  const ry = grip.y - centroid.y;
+  const rLenSq = rx * rx + ry * ry;
+  const omega = rLenSq > 1 ? (rx * velocity.y - ry * velocity.x) / rLenSq : 0;
+  const spin = Math.max(-MAX_SPIN, Math.min(MAX_SPIN, ((omega * 180) / Math.PI) * SPIN_SHARE));
+
+  return {
+    x: 0,
+    y: 0,
+    rotation: 0,
+    vx: velocity.x * FOLLOW + (nx / nLen) * SEPARATION,
+    vy: velocity.y * FOLLOW + (ny / nLen) * SEPARATION,
+    spin,
+  };
+}
+
+// Step a body under gravity and air drag; returns the state after every step
+export function simulateBody(initial: BodyState, options: SimulationOptions = {}): BodyState[] {
+  const {
+    gravity = GRAVITY,
+    drag = DRAG,
+    timeStep = TIME_STEP,
+    maxDuration = MAX_DURATION,
+    floor = Infinity,
+  } = options;
+
+  const states: BodyState[] = [initial];
+  let body = initial;
+  const steps = Math.ceil(maxDuration / timeStep);
+  const damping = Math.max(0, 1 - drag * timeStep);
+
+  for (let i = 0; i < steps && body.y < floor; i++) {
+    const vx = body.vx * damping;
+    const vy = (body.vy + gravity * timeStep) * damping;
+    const spin = body.spin * damping;
+    body = {
+      x: body.x + vx * timeStep,
+      y: body.y + vy * timeStep,
+      rotation: body.rotation + spin * timeStep,
+      vx,
+      vy,
+      spin,
+    };
+    states.push(body);
+  }
+  return states;
+}
+
+// Thin a simulation out into keyframes for framer-motion
+export function toFlight(
+  states: BodyState[],
+  timeStep = TIME_STEP,
+  sampleEvery = 3,
+): Flight {
+  const last = states.length - 1;
+  const indices = states.map((_, i) => i).filter((i) => i % sampleEvery === 0 || i === last);
+  const picked = indices.map((i) => states[i]);
+
+  return {
+    x: picked.map((s) => s.x),
+    y: picked.map((s) => s.y),
+    rotate: picked.map((s) => s.rotation),
+    times: indices.map((i) => (last > 0 ? i / last : 0)),
+    duration: Math.max(last * timeStep, timeStep),
+  };
+}
@@ -0,0 +1,9 @@
+// Seeded random numbers (Park-Miller), so fibers, grain and jagged edges come out the
+// same on every render and every device
+export function seededRandom(seed: number) {
+  let s = seed;
+  return () => {
+    s = (s * 16807 + 0) % 2147483647;
+    return (s - 1) / 2147483646;
+  };
+}
@@ -0,0 +1,232 @@
+// Recording of the recipient tearing the cover, so it can be watched again later.
+// Stored compactly: a version byte and the cover's aspect ratio; since version 2 the
+// tear profile's name (a length byte and UTF-8) and the cover's look (a flag byte, then
+// paper and wax RGB, gradient and paper kind indices and texture density); then per
+// sample the position as 16-bit fractions of the cover, the time as a varint millisecond
+// delta and the pressure as a byte, all packed into a base64url string.
+import { fromBase64Url, toBase64Url } from "@/lib/share";
+import { withCoverDefaults } from "@/lib/cover";
+import { coverGradients, paperKinds, type CoverDesign } from "@/lib/letter";
+import {
+  DEFAULT_TEAR_PROFILE,
+  tearProgressBetween,
+  type TearPoint,
+  type TearProfile,
+} from "@/lib/tear";
+
+export interface TearSample extends TearPoint {
+  t: number; // ms since the tear began
+  pressure: number; // 0-1, as reported by PointerEvent.pressure
+}
+
+export interface TearRecording {
+  // Width / height of the cover it was torn on, so the replay keeps its shape
+  aspect: number;
+  samples: TearSample[];
+  // Tear profile name and cover of the letter, so a replay link looks like the tear did
+  profile?: string;
+  cover?: CoverDesign;
+}
+
+// Where a replayed tear has got to at some moment
+export interface TearFrame {
+  path: TearPoint[];
+  progress: number;
+}
+
+const FORMAT_VERSION = 2;
+// Links made before recordings carried the profile and cover still play
+const PLAIN_FORMAT_VERSION = 1;
+// Longest profile name a recording keeps, in UTF-8 bytes; room for any name a letter
+// can give (40 characters)
+const MAX_PROFILE_BYTES = 0xff;
+// Far more than any real tear needs; stops a runaway gesture growing the link forever
+export const MAX_RECORDED_SAMPLES = 1500;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function pushVarint(bytes: number[], value: number) {
+  let rest = Math.max(0, Math.round(value));
+  while (rest >= 0x80) {
+    bytes.push((rest & 0x7f) | 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  bytes.push(rest);
+}
+
+const hexBytes = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+const toHex = (rgb: ArrayLike<number>) =>
+  "#" + Array.from(rgb, (v) => v.toString(16).padStart(2, "0")).join("");
+
+// Paper and wax RGB, gradient, paper kind and texture density
+const COVER_BYTES = 9;
+
+function pushCover(bytes: number[], cover?: CoverDesign) {
+  if (!cover) {
+    bytes.push(0);
+    return;
+  }
+  const { color, seal, gradient, paper, textureDensity } = withCoverDefaults(cover);
+  bytes.push(
+    1,
+    ...hexBytes(color),
+    ...hexBytes(seal.color),
+    coverGradients.indexOf(gradient),
+    paperKinds.indexOf(paper),
+    Math.round(clamp01(textureDensity) * 0xff),
+  );
+}
+
+// The cover's look from its bytes at `i`; the seal keeps the opener's words, as
+// monograms and emblems don't travel in the link
+function readCover(bytes: Uint8Array, i: number): CoverDesign | null {
+  const gradient = coverGradients[bytes[i + 6]];
+  const paper = paperKinds[bytes[i + 7]];
+  if (!gradient || !paper) return null;
+  return withCoverDefaults({
+    color: toHex(bytes.subarray(i, i + 3)),
+    gradient,
+    paper,
+    textureDensity: bytes[i + 8] / 0xff,
+    seal: { color: toHex(bytes.subarray(i + 3, i + 6)), content: { type: "words" } },
+  });
+}
+
+export function encodeRecording({ aspect, samples, profile, cover }: TearRecording): string {
+  const ratio = Math.round(Math.max(0.1, Math.min(6, aspect)) * 10000);
+  const name = new TextEncoder().encode(profile ?? "").slice(0, MAX_PROFILE_BYTES);
+  const bytes = [FORMAT_VERSION, ratio >> 8, ratio & 0xff, name.length, ...name];
+  pushCover(bytes, cover);
+  let previous = 0;
+  for (const sample of samples.slice(0, MAX_RECORDED_SAMPLES)) {
+    const x = Math.round(clamp01(sample.x) * 0xffff);
+    const y = Math.round(clamp01(sample.y) * 0xffff);
+    bytes.push(x >> 8, x & 0xff, y >> 8, y & 0xff);
+    // Deltas never go backwards, so a replay can't run in reverse
+    const t = Math.max(previous, Math.round(sample.t));
+    pushVarint(bytes, t - previous);
+    previous = t;
+    bytes.push(Math.round(clamp01(sample.pressure) * 0xff));
+  }
+  return toBase64Url(Uint8Array.from(bytes));
+}
+
+// Returns null for anything that isn't a complete recording
+export function decodeRecording(payload: string): TearRecording | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload);
+  } catch {
+    return null;
+  }
+  const version = bytes[0];
+  if ((version !== FORMAT_VERSION && version !== PLAIN_FORMAT_VERSION) || bytes.length < 3) {
+    return null;
+  }
+  const aspect = ((bytes[1] << 8) | bytes[2]) / 10000;
+  if (aspect === 0) return null;
+
+  let i = 3;
+  const recording: TearRecording = { aspect, samples: [] };
+  if (version === FORMAT_VERSION) {
+    if (i >= bytes.length) return null;
+    const nameLength = bytes[i++];
+    if (i + nameLength >= bytes.length) return null;
+    try {
+      const name = new TextDecoder("utf-8", { fatal: true }).decode(
+        bytes.subarray(i, i + nameLength),
+      );
+      if (name) recording.profile = name;
+    } catch {
+      return null;
+    }
+    i += nameLength;
+    const hasCover = bytes[i++];
+    if (hasCover > 1) return null;
+    if (hasCover) {
+      if (i + COVER_BYTES > bytes.length) return null;
+      const cover = readCover(bytes, i);
+      if (!cover) return null;
+      recording.cover = cover;
+      i += COVER_BYTES;
+    }
+  }
+
+  const samples = recording.samples;
+  let t = 0;
+  while (i < bytes.length) {
+    if (i + 4 > bytes.length || samples.length >= MAX_RECORDED_SAMPLES) return null;
+    const x = ((bytes[i] << 8) | bytes[i + 1]) / 0xffff;
+    const y = ((bytes[i + 2] << 8) | bytes[i + 3]) / 0xffff;
+    i += 4;
+
+    let delta = 0;
+    let scale = 1;
+    for (;;) {
+      if (i >= bytes.length || scale > 0x80 ** 4) return null;
+      const byte = bytes[i++];
+      delta += (byte & 0x7f) * scale;
+      scale *= 0x80;
+      if (byte < 0x80) break;
+    }
+    t += delta;
+
+    if (i >= bytes.length) return null;
+    samples.push({ x, y, t, pressure: bytes[i++] / 0xff });
+  }
+  return samples.length > 0 ? recording : null;
+}
+
+// The tear path the opener would have drawn from these samples: each point is kept
+// only once the pointer has moved far enough from the last one
+export function tearPathFrom(
+  samples: TearSample[],
+  profile = DEFAULT_TEAR_PROFILE,
+): TearPoint[] {
+  if (samples.length === 0) return [];
+  const path: TearPoint[] = [{ x: samples[0].x, y: samples[0].y }];
+  for (const { x, y } of samples.slice(1)) {
+    const last = path[path.length - 1];
+    if (Math.hypot(x - last.x, y - last.y) > profile.pointSpacing) path.push({ x, y });
+  }
+  return path;
+}
+
+// The path once the tear finished: where the pointer last was is always included
+export function finalTearPath(
+  samples: TearSample[],
+  profile = DEFAULT_TEAR_PROFILE,
+): TearPoint[] {
+  if (samples.length === 0) return [];
+  const { x, y } = samples[samples.length - 1];
+  return [...tearPathFrom(samples, profile), { x, y }];
+}
+
+export function recordingDuration(samples: TearSample[]): number {
+  return samples.length > 0 ? samples[samples.length - 1].t : 0;
+}
+
+// The tear as it was `elapsed` ms in, on a cover of the given size (px), as the
+// profile it was torn with would have drawn it
+export function replayFrame(
+  samples: TearSample[],
+  elapsed: number,
+  width: number,
+  height: number,
+  profile: TearProfile = DEFAULT_TEAR_PROFILE,
+): TearFrame {
+  const shown = samples.filter((s) => s.t <= elapsed);
+  if (shown.length === 0) return { path: [], progress: 0 };
+  const last = shown[shown.length - 1];
+  return {
+    path: tearPathFrom(shown, profile),
+    progress: tearProgressBetween(shown[0], last, width, height, profile.reach),
+  };
+}
+
+// Link that plays a recording back on its own, e.g. for the recipient to send the sender
+export function buildReplayUrl(recording: TearRecording): string {
+  const base = window.location.href.split("#")[0];
+  return `${base}#/replay/${encodeRecording(recording)}`;
+}
@@ -0,0 +1,167 @@
+// Paper-tearing sound effects, synthesized from filtered noise so there's nothing to
+// download, plus matching vibration on devices that support it. State lives at module
+// level (like the toast store) so the opener, the music and the settings stay in sync.
+
+export interface GrainParams {
+  gain: number;
+  // Centre of the band-pass filter (Hz); higher sounds thinner and crisper
+  frequency: number;
+  q: number;
+  duration: number; // seconds
+}
+
+const STORAGE_KEY = "sfx-muted";
+
+// Pointer speed (px/s) at which a grain reaches full volume
+const FULL_SPEED = 1800;
+// Shortest gap between two grains while dragging (seconds)
+const GRAIN_INTERVAL = 0.045;
+const FINAL_RIP_DURATION = 0.45;
+const FINAL_RIP_VIBRATION = [30, 40, 60];
+
+let context: AudioContext | null = null;
+let noise: AudioBuffer | null = null;
+let lastGrainAt = 0;
+
+const muteListeners: Array<(muted: boolean) => void> = [];
+const duckListeners: Array<(duration: number) => void> = [];
+
+let muted = loadSfxMuted();
+
+function loadSfxMuted(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === "1";
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+    return false;
+  }
+}
+
+export function isSfxMuted(): boolean {
+  return muted;
+}
+
+export function setSfxMuted(next: boolean) {
+  muted = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, next ? "1" : "0");
+  } catch {
+    // Not persisting is fine; the choice still applies for this visit
+  }
+  muteListeners.forEach((listener) => listener(muted));
+}
+
+export function subscribeSfxMuted(listener: (muted: boolean) => void): () => void {
+  muteListeners.push(listener);
+  return () => {
+    const index = muteListeners.indexOf(listener);
+    if (index > -1) muteListeners.splice(index, 1);
+  };
+}
+
+// Called with the rip's length whenever the music should dip out of the way
+export function subscribeDuck(listener: (duration: number) => void): () => void {
+  duckListeners.push(listener);
+  return () => {
+    const index = duckListeners.indexOf(listener);
+    if (index > -1) duckListeners.splice(index, 1);
+  };
+}
+
+// Browsers only allow audio after a user gesture, so call this from one (the gate tap)
+export function unlockSfx() {
+  const AudioContextClass =
+    window.AudioContext ??
+    (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+  if (!context) {
+    try {
+      context = new AudioContextClass();
+    } catch {
+      return;
+    }
+  }
+  if (context.state === "suspended") context.resume().catch(() => {});
+}
+
+// How one grain of the tear sounds: faster pulls are louder and rougher, and the
+// pitch climbs as the tear runs across the sheet and the paper gets tighter
+export function grainParams(speed: number, progress: number): GrainParams {
+  const intensity = Math.max(0, Math.min(1, speed / FULL_SPEED));
+  const along = Math.max(0, Math.min(1, progress));
+  return {
+    gain: 0.05 + intensity * 0.3,
+    frequency: 1400 + along * 1600 + intensity * 900,
+    q: 0.9 - intensity * 0.4,
+    duration: 0.03 + intensity * 0.05,
+  };
+}
+
+function noiseBuffer(ctx: AudioContext): AudioBuffer {
+  if (noise && noise.sampleRate === ctx.sampleRate) return noise;
+  noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = noise.getChannelData(0);
+  // Crackly rather than smooth: most samples are quiet, a few are sharp fibres snapping
+  for (let i = 0; i < data.length; i++) {
+    const snap = Math.random() < 0.08 ? 1 : 0.35;
+    data[i] = (Math.random() * 2 - 1) * snap;
+  }
+  return noise;
+}
+
+function playBurst({ gain, frequency, q, duration }: GrainParams) {
+  const ctx = context;
+  if (!ctx || ctx.state !== "running") return;
+  const now = ctx.currentTime;
+  const buffer = noiseBuffer(ctx);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.value = frequency;
+  filter.Q.value = q;
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0, now);
+  envelope.gain.linearRampToValueAtTime(gain, now + 0.005);
+  envelope.gain.exponentialRampToValueAtTime(0.001, now + duration);
+
+  source.connect(filter).connect(envelope).connect(ctx.destination);
+  // Start somewhere random in the buffer so repeated grains don't sound identical
+  source.start(now, Math.random() * (buffer.duration - duration), duration);
+}
+
+function vibrate(pattern: number | number[]) {
+  if (typeof navigator.vibrate !== "function") return;
+  navigator.vibrate(pattern);
+}
+
+// A short scrap of tearing sound while the paper is being pulled
+export function playTearGrain(speed: number, progress: number) {
+  if (muted || !context) return;
+  if (context.currentTime - lastGrainAt < GRAIN_INTERVAL) return;
+  lastGrainAt = context.currentTime;
+  playBurst(grainParams(speed, progress));
+}
+
+// A light tick, e.g. as the tear passes each quarter of the way across
+export function tearPulse() {
+  if (muted) return;
+  vibrate(8);
+}
+
+// The last long rip as the cover comes apart
+export function playFinalRip() {
+  if (muted) return;
+  vibrate(FINAL_RIP_VIBRATION);
+  if (!context) return;
+  duckListeners.forEach((listener) => listener(FINAL_RIP_DURATION));
+  // A loud, wide first tear followed by a few trailing fibres
+  playBurst({ gain: 0.45, frequency: 2200, q: 0.5, duration: FINAL_RIP_DURATION });
+  [0.09, 0.17, 0.28].forEach((delay, i) => {
+    window.setTimeout(
+      () => playBurst({ gain: 0.2 - i * 0.05, frequency: 3000 + i * 400, q: 0.8, duration: 0.06 }),
+      delay * 1000,
+    );
+  });
+}
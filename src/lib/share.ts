@@ -0,0 +1,53 @@
+import { parseLetter, type LetterContent, type LetterParseResult } from "@/lib/letter";
+
+// Shareable links carry the whole letter in the URL: JSON → deflate → base64url.
+// Everything happens in the browser, so a static deploy can serve any letter.
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function fromBase64Url(payload: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]+$/.test(payload)) {
+    throw new Error("Invalid characters in payload");
+  }
+  const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream) {
+  const stream = new Response(bytes).body!.pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodeLetter(letter: LetterContent): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(letter));
+  return toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+export async function decodeLetter(payload: string): Promise<LetterParseResult> {
+  let json: string;
+  try {
+    const bytes = await pipe(fromBase64Url(payload), new DecompressionStream("deflate-raw"));
+    json = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return { letter: null, errors: [{ key: "letterError.incompleteLink" }] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { letter: null, errors: [{ key: "letterError.unreadableLink" }] };
+  }
+  return parseLetter(data);
+}
+
+// Absolute link to a letter for the current deploy (the app runs under a HashRouter)
+export async function buildShareUrl(letter: LetterContent): Promise<string> {
+  const base = window.location.href.split("#")[0];
+  return `${base}#/l/${await encodeLetter(letter)}`;
+}
@@ -0,0 +1,134 @@
+// Fragment tree for shredding the cover with several tears. Each tear splits one
+// fragment in two; the cover hangs from its top edge, so a piece that no longer
+// holds a stretch of it falls away. Points are normalized to the cover (0-1).
+import {
+  COVER_POLYGON,
+  jaggedTearLine,
+  pointInPolygon,
+  polygonArea,
+  rayPolygonExit,
+  splitPolygon,
+  type TearPoint,
+} from "@/lib/tear";
+
+export interface Fragment {
+  id: string;
+  polygon: TearPoint[];
+  // The tear that split this fragment, once it has been torn
+  tear?: TearPoint[];
+  children?: [Fragment, Fragment];
+  // Lost its hold on the top edge and fell away
+  detached: boolean;
+}
+
+// Shortest stretch of the top edge that still holds a piece up
+const MIN_PIN_LENGTH = 0.02;
+// Tears that would leave a sliver smaller than this are ignored
+const MIN_FRAGMENT_AREA = 1e-4;
+const JAGGEDNESS = 0.012;
+// How close to a fragment's edge a drag must start, or end if it never leaves the
+// fragment, to tear it through
+const EDGE_REACH = 0.04;
+
+export function createFragmentTree(): Fragment {
+  return { id: "0", polygon: COVER_POLYGON, detached: false };
+}
+
+export function leafFragments(fragment: Fragment): Fragment[] {
+  return fragment.children ? fragment.children.flatMap(leafFragments) : [fragment];
+}
+
+// How much of the top edge a polygon still holds on to
+export function pinnedLength(polygon: TearPoint[]): number {
+  let length = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    if (a.y <= 1e-6 && b.y <= 1e-6) length += Math.abs(b.x - a.x);
+  }
+  return length;
+}
+
+// The attached fragment under a point, if any
+export function fragmentAt(root: Fragment, p: TearPoint): Fragment | undefined {
+  return leafFragments(root).find(
+    (fragment) => !fragment.detached && pointInPolygon(fragment.polygon, p),
+  );
+}
+
+function distanceToSegment(p: TearPoint, a: TearPoint, b: TearPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
+
+// How far a point is from the nearest edge of a polygon
+function distanceToBoundary(polygon: TearPoint[], p: TearPoint): number {
+  return Math.min(
+    ...polygon.map((a, i) => distanceToSegment(p, a, polygon[(i + 1) % polygon.length])),
+  );
+}
+
+// Clip a drag to the fragment it starts in and, when it tears right across (from the
+// fragment's edge and out of it, or to another edge), run both ends out to the boundary.
+// A drag that stops partway leaves the fragment in one piece, so this gives null.
+export function tearLineThrough(polygon: TearPoint[], path: TearPoint[]): TearPoint[] | null {
+  const inside: TearPoint[] = [];
+  for (const p of path) {
+    if (!pointInPolygon(polygon, p)) break;
+    inside.push(p);
+  }
+  if (inside.length < 2) return null;
+
+  const [first, second] = inside;
+  const last = inside[inside.length - 1];
+  const leftFragment = inside.length < path.length;
+  if (distanceToBoundary(polygon, first) > EDGE_REACH) return null;
+  if (!leftFragment && distanceToBoundary(polygon, last) > EDGE_REACH) return null;
+
+  const prev = inside[inside.length - 2];
+  const start = rayPolygonExit(polygon, first, { x: first.x - second.x, y: first.y - second.y });
+  const end = rayPolygonExit(polygon, last, { x: last.x - prev.x, y: last.y - prev.y });
+  if (!start || !end) return null;
+
+  return jaggedTearLine([start, ...inside, end], JAGGEDNESS);
+}
+
+function replaceFragment(fragment: Fragment, id: string, next: Fragment): Fragment {
+  if (fragment.id === id) return next;
+  if (!fragment.children) return fragment;
+  const [a, b] = fragment.children;
+  return { ...fragment, children: [replaceFragment(a, id, next), replaceFragment(b, id, next)] };
+}
+
+// Tear the fragment under the start of the path; returns the tree unchanged when the
+// path doesn't make a usable tear
+export function tearFragment(root: Fragment, path: TearPoint[]): Fragment {
+  if (path.length < 2) return root;
+  const target = fragmentAt(root, path[0]);
+  if (!target) return root;
+  const tear = tearLineThrough(target.polygon, path);
+  if (!tear) return root;
+
+  const pieces = splitPolygon(target.polygon, tear);
+  if (pieces.some((piece) => Math.abs(polygonArea(piece)) < MIN_FRAGMENT_AREA)) return root;
+
+  const children = pieces.map((polygon, i) => ({
+    id: `${target.id}.${i}`,
+    polygon,
+    detached: pinnedLength(polygon) < MIN_PIN_LENGTH,
+  })) as [Fragment, Fragment];
+  return replaceFragment(root, target.id, { ...target, tear, children });
+}
+
+// Share of the cover that has fallen away
+export function detachedArea(root: Fragment): number {
+  return leafFragments(root)
+    .filter((fragment) => fragment.detached)
+    .reduce((sum, fragment) => sum + Math.abs(polygonArea(fragment.polygon)), 0);
+}
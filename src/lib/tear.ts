@@ -0,0 +1,526 @@
+// Geometry helpers for the tear-open cover. Points are normalized to the cover (0-1).
+import { seededRandom } from "@/lib/random";
+
+export interface TearPoint {
+  x: number; // 0-1 normalized
+  y: number; // 0-1 normalized
+}
+
+export interface FiberLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  opacity: number;
+}
+
+// A jagged tear line and the fibers along it, in the 0-100 viewBox for fibers
+export interface TearGeometry {
+  points: TearPoint[];
+  fibers: FiberLine[];
+}
+
+// Everything that sets how a tear feels. Distances are in cover units (0-1); progress
+// thresholds are shares of a full tear.
+export interface TearProfile {
+  // Minimum distance between points recorded along a tear (prevents clustered points)
+  pointSpacing: number;
+  // Share of the cover's diagonal a drag must cover to tear all the way
+  reach: number;
+  // How close to an edge a drag must come for the tear to finish there...
+  edgeMargin: number;
+  // ...once it has run this far
+  edgeProgress: number;
+  // Letting go finishes the tear once it has run this far...
+  releaseProgress: number;
+  // ...or this far, when let go within this margin of an edge
+  releaseEdgeProgress: number;
+  releaseEdgeMargin: number;
+  // Roughness of the edge as the tear starts, and how much it roughens by the end
+  jaggedness: number;
+  jaggednessGrowth: number;
+  // Loose fibers along a finished tear
+  fibers: number;
+}
+
+export const DEFAULT_TEAR_PROFILE: TearProfile = {
+  pointSpacing: 0.012,
+  reach: 0.85,
+  edgeMargin: 0.03,
+  edgeProgress: 0.75,
+  releaseProgress: 0.85,
+  releaseEdgeProgress: 0.6,
+  releaseEdgeMargin: 0.04,
+  jaggedness: 0.012,
+  jaggednessGrowth: 0.008,
+  fibers: 40,
+};
+
+// Whether a point lies within `margin` of the cover's edge
+export const nearCoverEdge = (p: TearPoint, margin: number) =>
+  p.x <= margin || p.x >= 1 - margin || p.y <= margin || p.y >= 1 - margin;
+
+// Jagged points per raw path segment
+const JAGGED_SEGMENTS = 4;
+
+// A jagged point before roughening: where it sits on the raw path, the segment's normal,
+// and its offsets per unit of jaggedness
+interface JaggedSeed {
+  x: number;
+  y: number;
+  nx: number;
+  ny: number;
+  offset: number;
+  microX: number;
+  microY: number;
+}
+
+export interface TearLine {
+  // The raw path so far
+  readonly path: TearPoint[];
+  // Extend the raw path by one point
+  push(point: TearPoint): void;
+  // Run both ends out to the cover's edges so the tear cuts it in two, keeping the edge
+  // torn so far
+  complete(): void;
+  // The jagged line through the path so far
+  points(jaggedness: number): TearPoint[];
+  // Jagged line and fibers at the given progress, as tearGeometry gives them; `span`
+  // limits them to that share of the line, 0-1 from its start
+  geometry(progress: number, span?: [number, number]): TearGeometry;
+}
+
+// Jagged tear line built up as the path grows: each segment's randomness is drawn once
+// when it's added, so a live tear only scales it rather than regenerating the line
+export function createTearLine(profile = DEFAULT_TEAR_PROFILE): TearLine {
+  const path: TearPoint[] = [];
+  const seeds: JaggedSeed[] = [];
+  const fixed = (p: TearPoint): JaggedSeed => ({
+    ...p,
+    nx: 0,
+    ny: 0,
+    offset: 0,
+    microX: 0,
+    microY: 0,
+  });
+
+  // Randomness along the segment from a to b, between its ends; seeded by the segment's
+  // place in the path so the same path always tears the same way
+  const segmentSeeds = (a: TearPoint, b: TearPoint, index: number): JaggedSeed[] => {
+    const rng = seededRandom(index * 137 + 7);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    const nx = -dy / (len || 1);
+    const ny = dx / (len || 1);
+    return Array.from({ length: JAGGED_SEGMENTS - 1 }, (_, i) => {
+      const t = (i + 1) / JAGGED_SEGMENTS;
+      return {
+        x: a.x + dx * t,
+        y: a.y + dy * t,
+        nx,
+        ny,
+        offset: (rng() - 0.5) * 2,
+        microX: rng() - 0.5,
+        microY: rng() - 0.5,
+      };
+    });
+  };
+
+  const push = (point: TearPoint) => {
+    path.push(point);
+    if (path.length > 1) seeds.push(...segmentSeeds(path[path.length - 2], point, path.length - 2));
+    seeds.push(fixed(point));
+  };
+
+  const points = (jaggedness: number) =>
+    path.length < 2
+      ? []
+      : seeds.map((s) => ({
+          x: s.x + s.nx * (s.offset * jaggedness) + s.microX * jaggedness * 0.3,
+          y: s.y + s.ny * (s.offset * jaggedness) + s.microY * jaggedness * 0.3,
+        }));
+
+  return {
+    path,
+    push,
+    complete() {
+      if (path.length < 2) return;
+      const start = extendToEdge(path[0], path[1], true);
+      push(extendToEdge(path[path.length - 1], path[path.length - 2], false));
+      // The lead-in is added in front, so it takes the next unused segment's seed rather
+      // than shifting the rest (a negative seed would throw every jag to one side)
+      seeds.unshift(fixed(start), ...segmentSeeds(start, path[0], path.length - 1));
+      path.unshift(start);
+    },
+    points,
+    geometry(progress, span) {
+      let line = points(profile.jaggedness + progress * profile.jaggednessGrowth);
+      if (span) {
+        const last = line.length - 1;
+        line = line.slice(Math.floor(span[0] * last), Math.ceil(span[1] * last) + 1);
+      }
+      const count = Math.floor(progress * profile.fibers);
+      const fibers = line.length < 2 ? [] : generateFibers(line, 100, 100, count, 999);
+      return { points: line, fibers };
+    },
+  };
+}
+
+// Jagged tear line through every point of a raw tear path
+export function jaggedTearLine(source: TearPoint[], jaggedness: number): TearPoint[] {
+  const line = createTearLine();
+  source.forEach((p) => line.push(p));
+  return line.points(jaggedness);
+}
+
+// What a tear looks like at a given progress: the edge roughens and frays as it runs.
+// Fibers are in the 0-100 viewBox the tear SVGs draw in.
+export function tearGeometry(
+  path: TearPoint[],
+  progress: number,
+  profile = DEFAULT_TEAR_PROFILE,
+): TearGeometry {
+  const line = createTearLine(profile);
+  path.forEach((p) => line.push(p));
+  return line.geometry(progress);
+}
+
+// Width of the pale paper core exposed along a finished rip, in cover units
+export const TORN_CORE_WIDTH = 0.014;
+
+// The fainter band feathering the core, as a multiple of the core's width
+export const TORN_FEATHER_SCALE = 1.8;
+
+// Outline of the core exposed along a rip: a band around the tear line whose width
+// wanders on each side, since the fibers pull out unevenly. Empty for fewer than 2 points.
+export function tornCoreBand(points: TearPoint[], width: number, seed = 4242): TearPoint[] {
+  if (points.length < 2) return [];
+  const rng = seededRandom(seed);
+  const left: TearPoint[] = [];
+  const right: TearPoint[] = [];
+
+  points.forEach((p, i) => {
+    const prev = points[Math.max(0, i - 1)];
+    const next = points[Math.min(points.length - 1, i + 1)];
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const len = Math.hypot(dx, dy) || 1;
+    const nx = -dy / len;
+    const ny = dx / len;
+    const l = (width / 2) * (0.35 + rng() * 0.9);
+    const r = (width / 2) * (0.35 + rng() * 0.9);
+    left.push({ x: p.x + nx * l, y: p.y + ny * l });
+    right.push({ x: p.x - nx * r, y: p.y - ny * r });
+  });
+  return [...left, ...right.reverse()];
+}
+
+// Build an SVG path from points
+export function pointsToSvgPath(points: TearPoint[], w: number, h: number): string {
+  if (points.length === 0) return "";
+  const cmds = points.map((p, i) => {
+    const x = p.x * w;
+    const y = p.y * h;
+    return i === 0
+      ? `M${x.toFixed(1)},${y.toFixed(1)}`
+      : `L${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  return cmds.join(" ");
+}
+
+// Generate fiber whisker SVG elements along a tear line
+export function generateFibers(
+  tearPoints: TearPoint[],
+  w: number,
+  h: number,
+  count: number,
+  seed: number,
+): FiberLine[] {
+  const rng = seededRandom(seed);
+  const fibers: FiberLine[] = [];
+  if (tearPoints.length < 2) return fibers;
+
+  for (let i = 0; i < count; i++) {
+    const idx = Math.floor(rng() * (tearPoints.length - 1));
+    const p = tearPoints[idx];
+    const pNext = tearPoints[idx + 1];
+    const t = rng();
+    const bx = (p.x + (pNext.x - p.x) * t) * w;
+    const by = (p.y + (pNext.y - p.y) * t) * h;
+    const angle = rng() * Math.PI * 2;
+    const fiberLen = 2 + rng() * 6;
+    fibers.push({
+      x1: bx,
+      y1: by,
+      x2: bx + Math.cos(angle) * fiberLen,
+      y2: by + Math.sin(angle) * fiberLen,
+      opacity: 0.15 + rng() * 0.25,
+    });
+  }
+  return fibers;
+}
+
+// Extend a point toward the nearest edge based on direction
+export function extendToEdge(
+  point: TearPoint,
+  neighbor: TearPoint,
+  isStart: boolean,
+): TearPoint {
+  const dx = isStart ? point.x - neighbor.x : point.x - neighbor.x;
+  const dy = isStart ? point.y - neighbor.y : point.y - neighbor.y;
+
+  // Find which edge to extend to
+  // Project the direction outward to hit an edge
+  const candidates: TearPoint[] = [];
+
+  if (dx !== 0) {
+    // Left edge
+    const tLeft = -point.x / dx;
+    if (tLeft > 0) candidates.push({ x: 0, y: point.y + dy * tLeft });
+    // Right edge
+    const tRight = (1 - point.x) / dx;
+    if (tRight > 0) candidates.push({ x: 1, y: point.y + dy * tRight });
+  }
+  if (dy !== 0) {
+    // Top edge
+    const tTop = -point.y / dy;
+    if (tTop > 0) candidates.push({ x: point.x + dx * tTop, y: 0 });
+    // Bottom edge
+    const tBottom = (1 - point.y) / dy;
+    if (tBottom > 0) candidates.push({ x: point.x + dx * tBottom, y: 1 });
+  }
+
+  // Pick the closest valid edge point
+  let best = { x: Math.max(0, Math.min(1, point.x)), y: 0 }; // fallback: top edge
+  let bestDist = Infinity;
+  for (const c of candidates) {
+    if (c.x >= -0.01 && c.x <= 1.01 && c.y >= -0.01 && c.y <= 1.01) {
+      const d = (c.x - point.x) ** 2 + (c.y - point.y) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = {
+          x: Math.max(0, Math.min(1, c.x)),
+          y: Math.max(0, Math.min(1, c.y)),
+        };
+      }
+    }
+  }
+  return best;
+}
+
+// How far a tear from `start` to `pos` has run, 0-1, on a cover of the given size (px).
+// A full tear takes `reach` of the cover's diagonal.
+export function tearProgressBetween(
+  start: TearPoint,
+  pos: TearPoint,
+  width: number,
+  height: number,
+  reach = DEFAULT_TEAR_PROFILE.reach,
+): number {
+  const diagonal = Math.hypot(width, height);
+  if (diagonal === 0) return 0;
+  const distance = Math.hypot((pos.x - start.x) * width, (pos.y - start.y) * height);
+  return Math.min(distance / (diagonal * reach), 1);
+}
+
+// Two fingers pulled apart by this share of a drag tear's reach finish a pull-apart tear
+export const PULL_APART_SHARE = 0.45;
+
+// How far a pull-apart tear has spread, 0-1, from how far apart the fingers started and
+// are now (px), on a cover of the given size (px)
+export function pullApartProgress(
+  startDistance: number,
+  distance: number,
+  width: number,
+  height: number,
+  reach = DEFAULT_TEAR_PROFILE.reach,
+): number {
+  const needed = Math.hypot(width, height) * reach * PULL_APART_SHARE;
+  if (needed === 0) return 0;
+  return Math.max(0, Math.min((distance - startDistance) / needed, 1));
+}
+
+// Where fingers at `a` and `b` tear the cover when pulled apart: through their midpoint,
+// square to the line between them (on a cover of the given size), from edge to edge.
+// `middle` is where the midpoint falls along the path, 0-1 from its start.
+export function pullApartPath(
+  a: TearPoint,
+  b: TearPoint,
+  width: number,
+  height: number,
+  spacing = DEFAULT_TEAR_PROFILE.pointSpacing,
+): { path: TearPoint[]; middle: number } {
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  // Turn a quarter in pixels rather than cover units, so the tear looks square on screen
+  const px = (b.x - a.x) * width;
+  const py = (b.y - a.y) * height;
+  const dir = px === 0 && py === 0 ? { x: 0, y: 1 } : { x: -py / width, y: px / height };
+  const start = rayPolygonExit(COVER_POLYGON, mid, { x: -dir.x, y: -dir.y }) ?? mid;
+  const end = rayPolygonExit(COVER_POLYGON, mid, dir) ?? mid;
+
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const steps = Math.max(2, Math.ceil(length / spacing));
+  const path = Array.from({ length: steps + 1 }, (_, i) => ({
+    x: start.x + ((end.x - start.x) * i) / steps,
+    y: start.y + ((end.y - start.y) * i) / steps,
+  }));
+  const middle = length === 0 ? 0.5 : Math.hypot(mid.x - start.x, mid.y - start.y) / length;
+  return { path, middle };
+}
+
+// The share of a pull-apart path torn at a given progress: it opens out from the middle
+// and reaches both edges together
+export function pullApartSpan(middle: number, progress: number): [number, number] {
+  return [middle * (1 - progress), middle + (1 - middle) * progress];
+}
+
+// The whole cover as a polygon, clockwise from the top-left corner
+export const COVER_POLYGON: TearPoint[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Distance along a polygon's boundary, in edges (0-n), from its first vertex to the
+// boundary point nearest to p. Vertex i sits at position i.
+export function boundaryPosition(polygon: TearPoint[], p: TearPoint): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy || 1;
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+    const dist = (a.x + dx * t - p.x) ** 2 + (a.y + dy * t - p.y) ** 2;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i + t;
+    }
+  }
+  return best;
+}
+
+// Distance (0-4) clockwise around the cover from the top-left corner to the edge point
+// nearest to p: top edge 0-1, right 1-2, bottom 2-3, left 3-4
+export function perimeterPosition(p: TearPoint): number {
+  return boundaryPosition(COVER_POLYGON, { x: clamp01(p.x), y: clamp01(p.y) });
+}
+
+// Vertices passed when walking forward along the boundary between two positions
+function verticesBetween(polygon: TearPoint[], from: number, to: number): TearPoint[] {
+  const n = polygon.length;
+  const span = (to - from + n) % n;
+  return polygon
+    .map((point, i) => ({ point, offset: (i - from + n) % n }))
+    .filter(({ offset }) => offset > 0 && offset < span)
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ point }) => point);
+}
+
+// Split a polygon along a tear whose ends lie on its boundary (any edges, including the
+// same one). Each piece is the tear line closed off by walking the boundary from one
+// end of the tear back to the other, so both keep the polygon's winding.
+export function splitPolygon(
+  polygon: TearPoint[],
+  tear: TearPoint[],
+): [TearPoint[], TearPoint[]] {
+  if (tear.length < 2 || polygon.length < 3) return [[], []];
+  const start = boundaryPosition(polygon, tear[0]);
+  const end = boundaryPosition(polygon, tear[tear.length - 1]);
+  const reversed = [...tear].reverse();
+
+  return [
+    [...tear, ...verticesBetween(polygon, end, start)],
+    [...reversed, ...verticesBetween(polygon, start, end)],
+  ];
+}
+
+// Split the cover along an edge-to-edge tear; points are clamped to the cover
+export function splitCover(tear: TearPoint[]): [TearPoint[], TearPoint[]] {
+  return splitPolygon(
+    COVER_POLYGON,
+    tear.map((p) => ({ x: clamp01(p.x), y: clamp01(p.y) })),
+  );
+}
+
+// Even-odd test for whether p lies inside the polygon
+export function pointInPolygon(polygon: TearPoint[], p: TearPoint): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// First point where a ray from origin along dir leaves the polygon, if any
+export function rayPolygonExit(
+  polygon: TearPoint[],
+  origin: TearPoint,
+  dir: TearPoint,
+): TearPoint | null {
+  let nearest = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denom = dir.x * ey - dir.y * ex;
+    if (Math.abs(denom) < 1e-12) continue;
+    const t = ((a.x - origin.x) * ey - (a.y - origin.y) * ex) / denom;
+    const u = ((a.x - origin.x) * dir.y - (a.y - origin.y) * dir.x) / denom;
+    if (t > 1e-9 && u >= 0 && u <= 1 && t < nearest) nearest = t;
+  }
+  return nearest === Infinity
+    ? null
+    : { x: origin.x + dir.x * nearest, y: origin.y + dir.y * nearest };
+}
+
+// Signed area (shoelace); positive for clockwise polygons in screen coordinates
+export function polygonArea(points: TearPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+// Area-weighted centroid; falls back to the vertex average for degenerate polygons
+export function polygonCentroid(points: TearPoint[]): TearPoint {
+  const area = polygonArea(points);
+  if (Math.abs(area) < 1e-9) {
+    const n = points.length || 1;
+    return {
+      x: points.reduce((s, p) => s + p.x, 0) / n,
+      y: points.reduce((s, p) => s + p.y, 0) / n,
+    };
+  }
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+// CSS clip-path for a polygon in normalized cover coordinates
+export function pointsToClipPath(points: TearPoint[]): string {
+  return `polygon(${points
+    .map((p) => `${(p.x * 100).toFixed(1)}% ${(p.y * 100).toFixed(1)}%`)
+    .join(", ")})`;
+}
@@ -0,0 +1,119 @@
+// Named tear profiles a letter can pick with `tear-profile:` in its front matter.
+// Designers tune new ones in the dev panel (see TearTuningPanel), which keeps them in
+// this browser; copy one into builtInTearProfiles to let every recipient use it.
+import { z } from "zod";
+import { DEFAULT_TEAR_PROFILE, type TearProfile } from "@/lib/tear";
+
+export const DEFAULT_TEAR_PROFILE_NAME = "classic";
+
+export const builtInTearProfiles: Record<string, TearProfile> = {
+  classic: DEFAULT_TEAR_PROFILE,
+  // Tissue-thin: gives way early along a fine, fibrous edge
+  delicate: {
+    ...DEFAULT_TEAR_PROFILE,
+    reach: 0.7,
+    edgeProgress: 0.6,
+    releaseProgress: 0.7,
+    releaseEdgeProgress: 0.5,
+    jaggedness: 0.006,
+    jaggednessGrowth: 0.004,
+    fibers: 60,
+  },
+  // Card stock: has to be pulled nearly all the way and rips coarsely
+  stubborn: {
+    ...DEFAULT_TEAR_PROFILE,
+    reach: 0.95,
+    edgeProgress: 0.85,
+    releaseProgress: 0.95,
+    releaseEdgeProgress: 0.75,
+    jaggedness: 0.018,
+    jaggednessGrowth: 0.012,
+    fibers: 20,
+  },
+};
+
+const STORAGE_KEY = "tear-profiles";
+
+// Names come from share links, so only a profile's own key counts, never e.g. "toString"
+const hasOwn = (profiles: Record<string, TearProfile>, name: string) =>
+  Object.prototype.hasOwnProperty.call(profiles, name);
+
+// Built-in names always mean the built-in profile, so they can't be saved over
+export const isBuiltInTearProfile = (name: string) => hasOwn(builtInTearProfiles, name);
+
+// Rebuilt after parsing, like letter shape points, so a saved profile types as a full
+// TearProfile and the schema can't drift from it unnoticed
+const tearProfileSchema = z
+  .object({
+    pointSpacing: z.number().positive(),
+    reach: z.number().positive().max(1),
+    edgeMargin: z.number().min(0).max(0.5),
+    edgeProgress: z.number().min(0).max(1),
+    releaseProgress: z.number().min(0).max(1),
+    releaseEdgeProgress: z.number().min(0).max(1),
+    releaseEdgeMargin: z.number().min(0).max(0.5),
+    jaggedness: z.number().min(0),
+    jaggednessGrowth: z.number().min(0),
+    fibers: z.number().int().min(0),
+  })
+  .transform(
+    (p): TearProfile => ({
+      pointSpacing: p.pointSpacing,
+      reach: p.reach,
+      edgeMargin: p.edgeMargin,
+      edgeProgress: p.edgeProgress,
+      releaseProgress: p.releaseProgress,
+      releaseEdgeProgress: p.releaseEdgeProgress,
+      releaseEdgeMargin: p.releaseEdgeMargin,
+      jaggedness: p.jaggedness,
+      jaggednessGrowth: p.jaggednessGrowth,
+      fibers: p.fibers,
+    }),
+  );
+
+// Profiles saved from the dev panel in this browser; anything unreadable is skipped
+export function savedTearProfiles(): Record<string, TearProfile> {
+  try {
+    const stored = z
+      .record(z.unknown())
+      .safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}"));
+    if (!stored.success) return {};
+    return Object.fromEntries(
+      Object.entries(stored.data).flatMap(([name, value]) => {
+        const profile = tearProfileSchema.safeParse(value);
+        return profile.success ? [[name, profile.data]] : [];
+      }),
+    );
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes) or hold broken JSON
+    return {};
+  }
+}
+
+// False when the name is taken by a built-in profile and nothing was saved
+export function saveTearProfile(name: string, profile: TearProfile): boolean {
+  if (isBuiltInTearProfile(name)) return false;
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...savedTearProfiles(), [name]: profile }),
+    );
+  } catch {
+    // Not persisting is fine; the profile still applies until the page reloads
+  }
+  return true;
+}
+
+// Every profile a letter can name here: built-ins first, then this browser's own
+export function tearProfileNames(): string[] {
+  return [...new Set([...Object.keys(builtInTearProfiles), ...Object.keys(savedTearProfiles())])];
+}
+
+// The profile a letter names; unknown names (e.g. one only saved on the sender's
+// machine) fall back to the classic tear
+export function tearProfileNamed(name?: string): TearProfile {
+  if (!name) return DEFAULT_TEAR_PROFILE;
+  if (isBuiltInTearProfile(name)) return builtInTearProfiles[name];
+  const saved = savedTearProfiles();
+  return hasOwn(saved, name) ? saved[name] : DEFAULT_TEAR_PROFILE;
+}
@@ -0,0 +1,58 @@
+// Placeholder substitution for letter templates: {{recipientName}}, {{date}}, {{anything}}
+
+export interface TemplateField {
+  key: string;
+  label: string;
+  hint?: string;
+  type?: "text" | "date";
+}
+
+export interface LetterTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Labels for the template's own placeholders; the built-in ones are always known
+  fields: TemplateField[];
+  // Markdown letter source (see parseLetterMarkdown) containing {{placeholders}}
+  source: string;
+}
+
+export interface FilledTemplate {
+  text: string;
+  // Placeholders left without a value, in order of first appearance
+  missing: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+export const builtInFields: TemplateField[] = [
+  { key: "recipientName", label: "Recipient's name" },
+  { key: "senderName", label: "Your name" },
+  { key: "date", label: "Date", type: "date" },
+];
+
+export function findPlaceholders(source: string): string[] {
+  const keys = [...source.matchAll(PLACEHOLDER)].map((m) => m[1]);
+  return [...new Set(keys)];
+}
+
+// Every placeholder in the template, labelled from the template or the built-ins
+export function templateFields(template: LetterTemplate): TemplateField[] {
+  const known = [...builtInFields, ...template.fields];
+  return findPlaceholders(template.source).map(
+    (key) => known.find((f) => f.key === key) ?? { key, label: key },
+  );
+}
+
+export function fillTemplate(source: string, values: Record<string, string>): FilledTemplate {
+  const missing = new Set<string>();
+  const text = source.replace(PLACEHOLDER, (placeholder, key: string) => {
+    const value = values[key]?.trim();
+    if (!value) {
+      missing.add(key);
+      return placeholder;
+    }
+    return value;
+  });
+  return { text, missing: [...missing] };
+}
@@ -0,0 +1,148 @@
+// Tilt of a phone or tablet from its orientation sensor, for leaning the letter card the
+// way the mouse does on desktop. Readings are measured from the angle the device is
+// resting at and smoothed, then reported like the card's mouse position: -0.5 to 0.5
+// across each axis. State lives at module level (like sfx) so the gate tap can grant
+// permission before the letter starts listening.
+
+export interface Tilt {
+  x: number;
+  y: number;
+}
+
+// Device angles (degrees) measured from the resting angle, in the sensor's own frame
+export interface Orientation {
+  beta: number;
+  gamma: number;
+}
+
+// Leaning this many degrees from rest tilts the card all the way
+export const FULL_TILT_DEGREES = 20;
+// Share of each new reading mixed into the smoothed tilt; lower is steadier but slower
+export const TILT_SMOOTHING = 0.15;
+// How quickly the resting angle follows the way the device is held, per reading, so
+// settling into a new position slowly levels the card again
+export const REST_DRIFT = 0.004;
+// Changes smaller than this aren't worth a re-render
+const MIN_CHANGE = 0.002;
+
+type TiltPermission = "prompt" | "granted" | "denied";
+
+// iOS 13+ hides the sensor behind a permission that must be asked for from a tap
+interface OrientationEventWithPermission {
+  requestPermission?: () => Promise<"granted" | "denied">;
+}
+
+const listeners: Array<(tilt: Tilt) => void> = [];
+
+let permission: TiltPermission = needsPermission() ? "prompt" : "granted";
+let listening = false;
+let rest: Orientation | null = null;
+let smoothed: Tilt = { x: 0, y: 0 };
+let reported: Tilt = { x: 0, y: 0 };
+
+function needsPermission(): boolean {
+  return (
+    typeof DeviceOrientationEvent !== "undefined" &&
+    typeof (DeviceOrientationEvent as OrientationEventWithPermission).requestPermission ===
+      "function"
+  );
+}
+
+const clampHalf = (v: number) => Math.max(-0.5, Math.min(0.5, v));
+
+// Tilt for a reading against the resting angle, turned to match the screen's rotation
+// (degrees, as screen.orientation.angle gives it) so "right" stays right in landscape
+export function orientationTilt(
+  reading: Orientation,
+  resting: Orientation,
+  screenAngle = 0,
+): Tilt {
+  const beta = reading.beta - resting.beta;
+  // Gamma jumps by 180° as the device passes upright; keep the difference short
+  const gamma = ((reading.gamma - resting.gamma + 270) % 180) - 90;
+  const angle = (screenAngle * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: clampHalf(((gamma * cos + beta * sin) / FULL_TILT_DEGREES) * 0.5),
+    y: clampHalf(((beta * cos - gamma * sin) / FULL_TILT_DEGREES) * 0.5),
+  };
+}
+
+// Ease toward a new reading to take the shake out of the sensor
+export function smoothTilt(previous: Tilt, next: Tilt, smoothing = TILT_SMOOTHING): Tilt {
+  return {
+    x: previous.x + (next.x - previous.x) * smoothing,
+    y: previous.y + (next.y - previous.y) * smoothing,
+  };
+}
+
+// Let the resting angle creep toward the current one
+export function driftRest(resting: Orientation, reading: Orientation, drift = REST_DRIFT) {
+  return {
+    beta: resting.beta + (reading.beta - resting.beta) * drift,
+    gamma: resting.gamma + (reading.gamma - resting.gamma) * drift,
+  };
+}
+
+function screenAngle(): number {
+  return screen.orientation?.angle ?? 0;
+}
+
+function handleOrientation(e: DeviceOrientationEvent) {
+  // Desktops without a sensor still send an event, with no angles
+  if (e.beta === null || e.gamma === null) return;
+  const reading = { beta: e.beta, gamma: e.gamma };
+  // The first reading is how the device is being held
+  rest = rest ? driftRest(rest, reading) : reading;
+  smoothed = smoothTilt(smoothed, orientationTilt(reading, rest, screenAngle()));
+  if (
+    Math.abs(smoothed.x - reported.x) < MIN_CHANGE &&
+    Math.abs(smoothed.y - reported.y) < MIN_CHANGE
+  ) {
+    return;
+  }
+  reported = smoothed;
+  listeners.forEach((listener) => listener(reported));
+}
+
+function updateListening() {
+  const wanted = permission === "granted" && listeners.length > 0;
+  if (wanted === listening || typeof window === "undefined") return;
+  if (wanted) {
+    window.addEventListener("deviceorientation", handleOrientation);
+  } else {
+    window.removeEventListener("deviceorientation", handleOrientation);
+    // Measure from however the device is held next time
+    rest = null;
+    smoothed = reported = { x: 0, y: 0 };
+  }
+  listening = wanted;
+}
+
+// iOS only shares orientation after asking, from a user gesture, so call this from one
+// (the gate tap). Elsewhere the sensor is already available and this does nothing.
+export function requestTiltPermission() {
+  if (permission !== "prompt") return;
+  (DeviceOrientationEvent as OrientationEventWithPermission)
+    .requestPermission?.()
+    .then((result) => {
+      permission = result;
+      updateListening();
+    })
+    .catch(() => {
+      // Asked outside a gesture or blocked; the card just stays flat
+      permission = "denied";
+    });
+}
+
+// Called with the smoothed tilt while the device moves
+export function subscribeTilt(listener: (tilt: Tilt) => void): () => void {
+  listeners.push(listener);
+  updateListening();
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+    updateListening();
+  };
+}
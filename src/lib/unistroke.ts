@@ -0,0 +1,201 @@
+// Shape recognition for strokes drawn on the cover or letter, after the $1 unistroke
+// recognizer (Wobbrock, Wilson & Li, 2007): strokes are resampled, rotated to their
+// indicative angle and scaled into a square, then compared point by point with each
+// template at the best rotation within ±45°.
+import { builtInGestures, type BuiltInGesture, type LetterSecret } from "@/lib/letter";
+import type { TearPoint } from "@/lib/tear";
+
+export interface UnistrokeTemplate {
+  name: string;
+  // Normalized: resampled, rotated, scaled and centered on the origin
+  points: TearPoint[];
+}
+
+export interface UnistrokeMatch {
+  name: string;
+  // 0-1, how closely the stroke follows the template
+  score: number;
+}
+
+// Below this a stroke is taken as a scribble rather than any template
+export const MIN_GESTURE_SCORE = 0.8;
+
+const NUM_POINTS = 64;
+const SQUARE_SIZE = 250;
+const HALF_DIAGONAL = 0.5 * Math.hypot(SQUARE_SIZE, SQUARE_SIZE);
+const ANGLE_RANGE = (45 * Math.PI) / 180;
+const ANGLE_PRECISION = (2 * Math.PI) / 180;
+const PHI = 0.5 * (-1 + Math.sqrt(5));
+// Strokes whose narrow side is less than this share of their wide side are lines (e.g.
+// a tear given up on), which would blow up into noise when scaled into the square
+const MIN_ASPECT = 0.2;
+
+function pathLength(points: TearPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+function centroid(points: TearPoint[]): TearPoint {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
+
+function boundingBox(points: TearPoint[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// `n` points evenly spaced along the stroke
+export function resample(points: TearPoint[], n = NUM_POINTS): TearPoint[] {
+  const interval = pathLength(points) / (n - 1);
+  const source = [...points];
+  const result: TearPoint[] = [source[0]];
+  let carried = 0;
+
+  for (let i = 1; i < source.length; i++) {
+    const prev = source[i - 1];
+    const d = Math.hypot(source[i].x - prev.x, source[i].y - prev.y);
+    if (carried + d >= interval && d > 0) {
+      const t = (interval - carried) / d;
+      const q = {
+        x: prev.x + t * (source[i].x - prev.x),
+        y: prev.y + t * (source[i].y - prev.y),
+      };
+      result.push(q);
+      // Measure on from the new point
+      source.splice(i, 0, q);
+      carried = 0;
+    } else {
+      carried += d;
+    }
+  }
+  // Rounding can leave the last point off
+  while (result.length < n) result.push(source[source.length - 1]);
+  return result.slice(0, n);
+}
+
+function rotateBy(points: TearPoint[], angle: number): TearPoint[] {
+  const c = centroid(points);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return points.map((p) => ({
+    x: (p.x - c.x) * cos - (p.y - c.y) * sin + c.x,
+    y: (p.x - c.x) * sin + (p.y - c.y) * cos + c.y,
+  }));
+}
+
+// Resample, rotate the first point to 0°, scale into the square and center on the origin
+export function normalizeStroke(points: TearPoint[]): TearPoint[] {
+  const resampled = resample(points);
+  const c = centroid(resampled);
+  const rotated = rotateBy(resampled, -Math.atan2(c.y - resampled[0].y, c.x - resampled[0].x));
+  const box = boundingBox(rotated);
+  const scaled = rotated.map((p) => ({
+    x: (p.x * SQUARE_SIZE) / (box.width || 1),
+    y: (p.y * SQUARE_SIZE) / (box.height || 1),
+  }));
+  const center = centroid(scaled);
+  return scaled.map((p) => ({ x: p.x - center.x, y: p.y - center.y }));
+}
+
+// Templates for a named shape, accepted whichever way round it's drawn
+export function createTemplates(name: string, points: TearPoint[]): UnistrokeTemplate[] {
+  return [
+    { name, points: normalizeStroke(points) },
+    { name, points: normalizeStroke([...points].reverse()) },
+  ];
+}
+
+function pathDistance(a: TearPoint[], b: TearPoint[]): number {
+  return a.reduce((sum, p, i) => sum + Math.hypot(p.x - b[i].x, p.y - b[i].y), 0) / a.length;
+}
+
+// Golden section search for the rotation that brings the stroke closest to the template
+function distanceAtBestAngle(points: TearPoint[], template: TearPoint[]): number {
+  let a = -ANGLE_RANGE;
+  let b = ANGLE_RANGE;
+  let x1 = PHI * a + (1 - PHI) * b;
+  let f1 = pathDistance(rotateBy(points, x1), template);
+  let x2 = (1 - PHI) * a + PHI * b;
+  let f2 = pathDistance(rotateBy(points, x2), template);
+  while (Math.abs(b - a) > ANGLE_PRECISION) {
+    if (f1 < f2) {
+      b = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = PHI * a + (1 - PHI) * b;
+      f1 = pathDistance(rotateBy(points, x1), template);
+    } else {
+      a = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = (1 - PHI) * a + PHI * b;
+      f2 = pathDistance(rotateBy(points, x2), template);
+    }
+  }
+  return Math.min(f1, f2);
+}
+
+// Whether a stroke spreads enough both ways to be recognized as a shape at all
+export function isShapeLike(points: TearPoint[]): boolean {
+  const box = boundingBox(points);
+  const wide = Math.max(box.width, box.height);
+  return wide > 0 && Math.min(box.width, box.height) >= MIN_ASPECT * wide;
+}
+
+// The template a stroke looks most like, or null for strokes too short or too straight
+// to be a shape. Check the score against MIN_GESTURE_SCORE before acting on it.
+export function recognize(
+  points: TearPoint[],
+  templates: UnistrokeTemplate[],
+): UnistrokeMatch | null {
+  if (points.length < 8 || templates.length === 0 || !isShapeLike(points)) return null;
+
+  const candidate = normalizeStroke(points);
+  let best: UnistrokeMatch | null = null;
+  for (const template of templates) {
+    const distance = distanceAtBestAngle(candidate, template.points);
+    const score = 1 - distance / HALF_DIAGONAL;
+    if (!best || score > best.score) best = { name: template.name, score };
+  }
+  return best;
+}
+
+// A heart drawn from the dip between its lobes, round the right lobe to the point and
+// back up the left; y grows downward as on screen
+const heartStroke: TearPoint[] = Array.from({ length: 49 }, (_, i) => {
+  const t = (i / 48) * 2 * Math.PI;
+  return {
+    x: 16 * Math.sin(t) ** 3,
+    y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)),
+  };
+});
+
+// A five-pointed star in one stroke, from the top point
+const starStroke: TearPoint[] = Array.from({ length: 6 }, (_, i) => {
+  const angle = -Math.PI / 2 + (i * 4 * Math.PI) / 5;
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+});
+
+export const gestureStrokes: Record<BuiltInGesture, TearPoint[]> = {
+  heart: heartStroke,
+  star: starStroke,
+};
+
+// Everything a letter's secret can be drawn as: the built-in shapes and the sender's own
+export function secretTemplates(secret?: LetterSecret): UnistrokeTemplate[] {
+  return [
+    ...builtInGestures.flatMap((name) => createTemplates(name, gestureStrokes[name])),
+    ...(secret?.gestures ?? []).flatMap(({ name, points }) =>
+      createTemplates(name, points),
+    ),
+  ];
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { MotionConfig } from "framer-motion";
+import { MotionContext, type MotionContextValue } from "./context";
+import {
+  REDUCED_MOTION_QUERY,
+  loadMotionPreference,
+  saveMotionPreference,
+  systemPrefersReducedMotion,
+  type MotionPreference,
+} from "./preference";
+
+interface MotionProviderProps {
+  children: ReactNode;
+}
+
+const MotionProvider = ({ children }: MotionProviderProps) => {
+  const [preference, setPreferenceState] = useState(loadMotionPreference);
+  const [systemReduced, setSystemReduced] = useState(systemPrefersReducedMotion);
+
+  // Follow the OS setting live, e.g. when it's toggled with the page open
+  useEffect(() => {
+    if (typeof window.matchMedia !== "function") return;
+    const mql = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setSystemReduced(mql.matches);
+    mql.addEventListener("change", onChange);
+    return () => mql.removeEventListener("change", onChange);
+  }, []);
+
+  const setPreference = useCallback((next: MotionPreference) => {
+    saveMotionPreference(next);
+    setPreferenceState(next);
+  }, []);
+
+  const reduceMotion = preference === "system" ? systemReduced : preference === "reduce";
+
+  const value = useMemo<MotionContextValue>(
+    () => ({ preference, setPreference, reduceMotion }),
+    [preference, setPreference, reduceMotion],
+  );
+
+  // MotionConfig turns framer-motion's transform animations into instant jumps while
+  // keeping opacity, so anything not handled explicitly still degrades to a crossfade
+  return (
+    <MotionContext.Provider value={value}>
+      <MotionConfig reducedMotion={reduceMotion ? "always" : "never"}>{children}</MotionConfig>
+    </MotionContext.Provider>
+  );
+};
+
+export default MotionProvider;
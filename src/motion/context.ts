@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { MotionPreference } from "./preference";
+
+export interface MotionContextValue {
+  preference: MotionPreference;
+  setPreference: (preference: MotionPreference) => void;
+  // The resolved answer every animated component should follow
+  reduceMotion: boolean;
+}
+
+export const MotionContext = createContext<MotionContextValue | null>(null);
+
+export function useMotion(): MotionContextValue {
+  const context = useContext(MotionContext);
+  if (!context) {
+    throw new Error("useMotion must be used within a MotionProvider.");
+  }
+  return context;
+}
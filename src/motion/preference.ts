@@ -0,0 +1,34 @@
+// "system" follows the OS prefers-reduced-motion setting; the others override it
+export type MotionPreference = "system" | "reduce" | "full";
+
+export const motionPreferences: MotionPreference[] = ["system", "reduce", "full"];
+
+const STORAGE_KEY = "motion";
+
+// For values read back from storage or handed over by a menu
+export const isMotionPreference = (value: string | null): value is MotionPreference =>
+  motionPreferences.some((p) => p === value);
+
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export function loadMotionPreference(): MotionPreference {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isMotionPreference(saved)) return saved;
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+  return "system";
+}
+
+export function saveMotionPreference(preference: MotionPreference) {
+  try {
+    localStorage.setItem(STORAGE_KEY, preference);
+  } catch {
+    // Not persisting is fine; the choice still applies for this visit
+  }
+}
+
+export function systemPrefersReducedMotion(): boolean {
+  return typeof window.matchMedia === "function" && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
@@ -0,0 +1,419 @@
+import { useMemo, useRef, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Download, Link2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import HeroSection from "@/components/HeroSection";
+import LetterSection from "@/components/LetterSection";
+import FlowerSection from "@/components/FlowerSection";
+import LetterErrors from "@/components/LetterErrors";
+import TemplatePanel from "@/components/composer/TemplatePanel";
+import CoverPanel from "@/components/composer/CoverPanel";
+import SecretPanel from "@/components/composer/SecretPanel";
+import { defaultOpener, openers } from "@/components/openers";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  useFormField,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import {
+  describeLetterError,
+  describeLetterMessage,
+  letterContentSchema,
+  parseLetter,
+  parseLetterMarkdown,
+  tearModes,
+  type LetterContent,
+  type OpenerType,
+  type TearMode,
+} from "@/lib/letter";
+import { buildShareUrl } from "@/lib/share";
+import { splitParagraphs } from "@/lib/markdown";
+import { fillTemplate } from "@/lib/templates";
+import { withCoverDefaults } from "@/lib/cover";
+import { defaultLetterSlug, letters } from "@/content/letters";
+import { letterTemplates } from "@/content/templates";
+import { useI18n } from "@/i18n/context";
+
+// The editor works on a single body text; paragraphs are separated by blank lines
+const composerSchema = letterContentSchema.omit({ paragraphs: true }).extend({
+  body: z.string().trim().min(1, "letterError.noParagraphs"),
+});
+
+type ComposerValues = z.infer<typeof composerSchema>;
+
+function toComposerValues({ paragraphs, ...rest }: LetterContent): ComposerValues {
+  return { ...rest, body: paragraphs.join("\n\n") };
+}
+
+function toLetter({ body, opener, secret, ...rest }: ComposerValues): unknown {
+  return {
+    ...rest,
+    // The opening picker registers an empty opener until one is chosen
+    opener: opener?.type ? opener : undefined,
+    // Likewise the secret panel keeps its shapes while the message is empty
+    secret: secret?.message?.trim() ? secret : undefined,
+    paragraphs: splitParagraphs(body),
+  };
+}
+
+const blankValues: ComposerValues = {
+  date: "",
+  salutation: "",
+  closing: "",
+  signature: "",
+  recipientName: "",
+  senderName: "",
+  body: "",
+};
+
+const textFields: {
+  name: Exclude<keyof ComposerValues, "body" | "opener" | "cover" | "secret">;
+  label: string;
+  type?: string;
+}[] = [
+  { name: "date", label: "Date", type: "date" },
+  { name: "recipientName", label: "Recipient" },
+  { name: "senderName", label: "Sender" },
+  { name: "salutation", label: "Salutation" },
+  { name: "closing", label: "Closing" },
+  { name: "signature", label: "Signature" },
+];
+
+const tearModeLabels: Record<TearMode, string> = {
+  drag: "Drag across",
+  pull: "Drag, or pull apart with two fingers",
+};
+
+// Openers that reveal once part of the cover is gone: slider wording and schema default
+const thresholdOpeners: Partial<Record<OpenerType, { action: string; fallback: number }>> = {
+  scratch: { action: "scratching", fallback: 0.55 },
+  shred: { action: "tearing away", fallback: 0.6 },
+};
+
+// A field's error, whose message is a key from the letter schema (see describeLetterMessage)
+const FieldMessage = () => {
+  const { t } = useI18n();
+  const { error, formMessageId } = useFormField();
+  if (!error?.message) return null;
+  return (
+    <p id={formMessageId} className="text-sm font-medium text-destructive">
+      {describeLetterMessage(error.message, t)}
+    </p>
+  );
+};
+
+const Compose = () => {
+  const { t } = useI18n();
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [previewKey, setPreviewKey] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [tab, setTab] = useState("letter");
+  const [templateId, setTemplateId] = useState(letterTemplates[0].id);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+
+  const form = useForm<ComposerValues>({
+    resolver: zodResolver(composerSchema),
+    mode: "onChange",
+    defaultValues: letters[defaultLetterSlug]?.letter
+      ? toComposerValues(letters[defaultLetterSlug].letter)
+      : blankValues,
+  });
+
+  // Unlike watch(), this keeps the same object until a field changes, so the letter is
+  // only parsed again (and the preview only recomputed) when it has been edited
+  const values = useWatch({
+    control: form.control,
+    compute: (current: ComposerValues) => current,
+  });
+  const thresholdOpener = values.opener && thresholdOpeners[values.opener.type];
+  const draft = useMemo(() => parseLetter(toLetter(values)), [values]);
+  const json = draft.letter ? JSON.stringify(draft.letter, null, 2) : "";
+
+  const template = letterTemplates.find((t) => t.id === templateId) ?? letterTemplates[0];
+  const filled = fillTemplate(template.source, templateValues);
+  const templateLetter = parseLetterMarkdown(filled.text);
+
+  // The preview follows whichever letter is being worked on
+  const parsed = tab === "templates" ? templateLetter : draft;
+
+  const applyTemplate = () => {
+    if (!templateLetter.letter) return;
+    form.reset(toComposerValues(templateLetter.letter));
+    setTab("letter");
+  };
+
+  const restartPreview = () => {
+    setRevealed(false);
+    setPreviewKey((k) => k + 1);
+    previewRef.current?.scrollTo({ top: 0 });
+  };
+
+  const exportLetter = () => {
+    if (!draft.letter) return;
+    const blob = new Blob([json], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `letter-for-${draft.letter.recipientName.toLowerCase().replace(/\W+/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyShareLink = async () => {
+    if (!draft.letter) return;
+    try {
+      await navigator.clipboard.writeText(await buildShareUrl(draft.letter));
+      toast.success("Link copied", { description: "Anyone with the link can open this letter." });
+    } catch {
+      toast.error("Couldn't copy the link", { description: "Your browser blocked clipboard access." });
+    }
+  };
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="flex items-center justify-between gap-4 border-b border-primary/10 px-5 py-3">
+        <h1 className="font-display text-xl font-semibold text-primary">Letter composer</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={restartPreview}>
+            <RotateCcw className="mr-1.5 h-4 w-4" />
+            Restart preview
+          </Button>
+          <Button variant="outline" size="sm" onClick={copyShareLink} disabled={!draft.letter}>
+            <Link2 className="mr-1.5 h-4 w-4" />
+            Copy share link
+          </Button>
+          <Button size="sm" onClick={exportLetter} disabled={!draft.letter}>
+            <Download className="mr-1.5 h-4 w-4" />
+            Export JSON
+          </Button>
+        </div>
+      </header>
+
+      <ResizablePanelGroup direction="horizontal" className="min-h-0 flex-1">
+        {/* ========== EDITOR ========== */}
+        <ResizablePanel defaultSize={38} minSize={25}>
+          <Tabs value={tab} onValueChange={setTab} className="flex h-full flex-col">
+            <TabsList className="mx-5 mt-4 self-start">
+              <TabsTrigger value="letter">Letter</TabsTrigger>
+              <TabsTrigger value="cover">Cover</TabsTrigger>
+              <TabsTrigger value="secret">Secret</TabsTrigger>
+              <TabsTrigger value="templates">Templates</TabsTrigger>
+              <TabsTrigger value="json">JSON</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="letter" className="min-h-0 flex-1 overflow-y-auto px-5 pb-8">
+              <Form {...form}>
+                <form onSubmit={(e) => e.preventDefault()} className="space-y-4">
+                  {textFields.map(({ name, label, type }) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{label}</FormLabel>
+                          <FormControl>
+                            <Input type={type} {...field} />
+                          </FormControl>
+                          <FieldMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <FormField
+                    control={form.control}
+                    name="body"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Letter</FormLabel>
+                        <FormControl>
+                          <Textarea rows={16} className="font-body text-base" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Leave a blank line between paragraphs. Use *emphasis*, **bold**,
+                          ~script~ and "&gt; " for quotes.
+                        </FormDescription>
+                        <FieldMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="opener.type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Opening</FormLabel>
+                        <Select value={field.value ?? defaultOpener} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(openers).map(([type, { label }]) => (
+                              <SelectItem key={type} value={type}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>How the recipient opens the cover.</FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                  {(values.opener?.type ?? defaultOpener) === "tear" && (
+                    <FormField
+                      control={form.control}
+                      name="opener.mode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tearing</FormLabel>
+                          <Select
+                            value={field.value ?? "drag"}
+                            onValueChange={(mode) => {
+                              // The picker leaves the type unset until one is chosen
+                              form.setValue("opener.type", "tear");
+                              field.onChange(mode);
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {tearModes.map((mode) => (
+                                <SelectItem key={mode} value={mode}>
+                                  {tearModeLabels[mode]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Pulling apart works on touch screens; dragging always works too.
+                          </FormDescription>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {thresholdOpener && (
+                    <FormField
+                      control={form.control}
+                      name="opener.threshold"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Reveal after {thresholdOpener.action}{" "}
+                            {Math.round((field.value ?? thresholdOpener.fallback) * 100)}%
+                          </FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={0.1}
+                              max={0.95}
+                              step={0.05}
+                              value={[field.value ?? thresholdOpener.fallback]}
+                              onValueChange={([value]) => field.onChange(value)}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="cover" className="min-h-0 flex-1 overflow-y-auto px-5 pb-8">
+              <CoverPanel
+                design={withCoverDefaults(values.cover)}
+                senderName={values.senderName}
+                onChange={(cover) => form.setValue("cover", cover, { shouldValidate: true })}
+              />
+            </TabsContent>
+
+            <TabsContent value="secret" className="min-h-0 flex-1 overflow-y-auto px-5 pb-8">
+              <SecretPanel
+                secret={values.secret}
+                onChange={(secret) => form.setValue("secret", secret, { shouldValidate: true })}
+              />
+            </TabsContent>
+
+            <TabsContent value="templates" className="min-h-0 flex-1 overflow-y-auto px-5 pb-8">
+              <TemplatePanel
+                templates={letterTemplates}
+                template={template}
+                values={templateValues}
+                missing={filled.missing}
+                canUse={!!templateLetter.letter && filled.missing.length === 0}
+                onTemplateChange={setTemplateId}
+                onValueChange={(key, value) =>
+                  setTemplateValues((prev) => ({ ...prev, [key]: value }))
+                }
+                onUse={applyTemplate}
+              />
+            </TabsContent>
+
+            <TabsContent value="json" className="min-h-0 flex-1 px-5 pb-8">
+              <Textarea
+                readOnly
+                value={
+                  json || draft.errors.map((error) => describeLetterError(error, t)).join("\n")
+                }
+                className="h-full resize-none font-mono text-xs"
+              />
+            </TabsContent>
+          </Tabs>
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        {/* ========== LIVE PREVIEW ========== */}
+        <ResizablePanel defaultSize={62} minSize={30}>
+          <div ref={previewRef} className="h-full overflow-y-auto">
+            {parsed.letter ? (
+              <div key={previewKey}>
+                <HeroSection recipientName={parsed.letter.recipientName} />
+                <LetterSection
+                  letter={parsed.letter}
+                  onRevealed={() => setRevealed(true)}
+                  scrollContainer={previewRef}
+                />
+                {revealed && <FlowerSection preview scrollContainer={previewRef} />}
+              </div>
+            ) : (
+              <LetterErrors
+                title="This letter isn't ready yet"
+                errors={parsed.errors.map((error) => describeLetterError(error, t))}
+              />
+            )}
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+};
+
+export default Compose;
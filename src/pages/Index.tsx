@@ -1,43 +1,23 @@
-import { useState, useCallback, useEffect } from "react";
-import HeroSection from "@/components/HeroSection";
-import LetterSection from "@/components/LetterSection";
-import FlowerSection from "@/components/FlowerSection";
-import BackgroundMusic from "@/components/BackgroundMusic";
+import LetterExperience from "@/components/LetterExperience";
+import LetterErrors from "@/components/LetterErrors";
+import { defaultLetterSlug, letters } from "@/content/letters";
+import { describeLetterError } from "@/lib/letter";
+import { useI18n } from "@/i18n/context";
 
-const Index = () => {
-  const [scrollUnlocked, setScrollUnlocked] = useState(false);
-
-  const handleRevealed = useCallback(() => {
-    // Wait 5 seconds after the tear before allowing scroll to the flower section
-    setTimeout(() => setScrollUnlocked(true), 5000);
-  }, []);
+const parsedLetter = letters[defaultLetterSlug];
 
-  // Always scroll to top on load/reload
-  useEffect(() => {
-    window.history.scrollRestoration = "manual";
-    window.scrollTo(0, 0);
-  }, []);
+const Index = () => {
+  const { t } = useI18n();
 
-  // Lock/unlock scroll on the body
-  useEffect(() => {
-    if (!scrollUnlocked) {
-      document.body.style.overflow = "hidden";
-    } else {
-      document.body.style.overflow = "";
-    }
-    return () => {
-      document.body.style.overflow = "";
-    };
-  }, [scrollUnlocked]);
+  if (!parsedLetter.letter) {
+    return (
+      <main className="bg-background">
+        <LetterErrors errors={parsedLetter.errors.map((error) => describeLetterError(error, t))} />
+      </main>
+    );
+  }
 
-  return (
-    <main className="bg-background">
-      <BackgroundMusic />
-      <HeroSection />
-      <LetterSection onRevealed={handleRevealed} />
-      {scrollUnlocked && <FlowerSection />}
-    </main>
-  );
+  return <LetterExperience letter={parsedLetter.letter} />;
 };
 
 export default Index;
@@ -0,0 +1,43 @@
+import { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import LetterErrors from "@/components/LetterErrors";
+import TearReplay from "@/components/openers/TearReplay";
+import { decodeRecording } from "@/lib/recording";
+import { tearProfileNamed } from "@/lib/tearProfiles";
+import { useI18n } from "@/i18n/context";
+
+// A shared "how it was opened" link: just the recorded tear, played on its own
+const Replay = () => {
+  const { recording: payload = "" } = useParams();
+  const { t } = useI18n();
+  const recording = useMemo(() => decodeRecording(payload), [payload]);
+  const [plays, setPlays] = useState(0);
+
+  if (!recording) {
+    return (
+      <main className="bg-background">
+        <LetterErrors title={t("replay.brokenLinkTitle")} errors={[t("replay.brokenLink")]} />
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center gap-6 bg-background px-4 py-10">
+      <h1 className="font-script text-3xl text-primary sm:text-4xl">{t("replay.title")}</h1>
+      <div className="w-full max-w-md">
+        <TearReplay
+          key={plays}
+          recording={recording}
+          cover={recording.cover}
+          profile={tearProfileNamed(recording.profile)}
+        />
+      </div>
+      <Button variant="outline" onClick={() => setPlays((n) => n + 1)}>
+        {t("replay.again")}
+      </Button>
+    </main>
+  );
+};
+
+export default Replay;
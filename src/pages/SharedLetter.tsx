@@ -0,0 +1,36 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import LetterExperience from "@/components/LetterExperience";
+import LetterErrors from "@/components/LetterErrors";
+import { describeLetterError } from "@/lib/letter";
+import { decodeLetter } from "@/lib/share";
+import { useI18n } from "@/i18n/context";
+
+const SharedLetter = () => {
+  const { payload = "" } = useParams();
+  const { t } = useI18n();
+
+  const { data } = useQuery({
+    queryKey: ["shared-letter", payload],
+    queryFn: () => decodeLetter(payload),
+    staleTime: Infinity,
+  });
+
+  // Decoding is near-instant; keep the background blank meanwhile
+  if (!data) return <main className="min-h-screen bg-background" />;
+
+  if (!data.letter) {
+    return (
+      <main className="bg-background">
+        <LetterErrors
+          title={t("letter.brokenLinkTitle")}
+          errors={data.errors.map((error) => describeLetterError(error, t))}
+        />
+      </main>
+    );
+  }
+
+  return <LetterExperience letter={data.letter} />;
+};
+
+export default SharedLetter;
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { coverPalette, hexToHsl, withCoverDefaults } from "@/lib/cover";
+import { coverDesignSchema, parseLetter } from "@/lib/letter";
+import { letters } from "@/content/letters";
+
+describe("hexToHsl", () => {
+  it("converts hex colors", () => {
+    expect(hexToHsl("#ff0000")).toEqual({ h: 0, s: 100, l: 50 });
+    expect(hexToHsl("#808080")).toEqual({ h: 0, s: 0, l: 50 });
+    expect(hexToHsl("#a63044")).toEqual({ h: 350, s: 55, l: 42 });
+  });
+});
+
+describe("coverPalette", () => {
+  it("keeps the burgundy cover by default", () => {
+    const palette = coverPalette();
+    expect(palette.stops).toEqual([
+      [0, "hsl(350 55% 42%)"],
+      [0.4, "hsl(350 50% 38%)"],
+      [1, "hsl(348 48% 34%)"],
+    ]);
+    expect(palette.background).toMatch(/^linear-gradient\(135deg, /);
+    expect(palette.paper).toBe("handmade");
+    expect(palette.textureStrength).toBeCloseTo(0.3);
+    expect(palette.seal.highlight).toBe("hsl(350 70% 50%)");
+    expect(palette.seal.shade).toBe("hsl(350 65% 35%)");
+    expect(palette.inside).toBe("linear-gradient(180deg, hsl(348 40% 26%), hsl(350 45% 32%))");
+    expect(palette.crease).toBe("hsl(350 40% 25% / 0.35)");
+  });
+
+  it("shades everything from the chosen colors", () => {
+    const palette = coverPalette(
+      coverDesignSchema.parse({ color: "#1e3a8a", gradient: "radial", seal: { color: "#0f766e" } }),
+    );
+    expect(palette.stops[0][1]).toBe("hsl(224 64% 33%)");
+    expect(palette.background).toMatch(/^radial-gradient/);
+    expect(palette.seal.shade).toMatch(/^hsl\(175 /);
+  });
+
+  it("scales the texture with its density", () => {
+    expect(coverPalette(withCoverDefaults({ textureDensity: 0 })).textureStrength).toBe(0);
+    expect(coverPalette(withCoverDefaults({ textureDensity: 1 })).textureStrength).toBeCloseTo(0.6);
+  });
+});
+
+describe("cover design in letters", () => {
+  const letter = letters.rain.letter;
+
+  it("accepts monograms and emblems", () => {
+    const monogram = parseLetter({
+      ...letter,
+      cover: { seal: { content: { type: "monogram", initials: "RW" } } },
+    });
+    expect(monogram.errors).toEqual([]);
+    expect(monogram.letter?.cover?.color).toBe("#a63044");
+
+    const emblem = parseLetter({
+      ...letter,
+      cover: { seal: { content: { type: "emblem", image: "data:image/png;base64,iVBORw0K" } } },
+    });
+    expect(emblem.errors).toEqual([]);
+  });
+
+  it("rejects seals that won't render", () => {
+    const result = parseLetter({
+      ...letter,
+      cover: {
+        color: "red",
+        seal: { content: { type: "emblem", image: "https://example.com/seal.png" } },
+      },
+    });
+    expect(result.errors).toEqual([
+      { key: "letterError.colorFormat", path: "cover.color" },
+      { key: "letterError.emblemFormat", path: "cover.seal.content.image" },
+    ]);
+  });
+});
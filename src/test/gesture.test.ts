@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { classifyGesture } from "@/lib/gesture";
+
+const start = { x: 100, y: 100, t: 0 };
+
+describe("classifyGesture", () => {
+  it("waits until the pointer has moved past the slop", () => {
+    expect(classifyGesture(start, { x: 104, y: 103, t: 40 }, "touch", false)).toBe("pending");
+  });
+
+  it("treats a short, quick press as a tap", () => {
+    expect(classifyGesture(start, { x: 103, y: 102, t: 120 }, "touch", true)).toBe("tap");
+    expect(classifyGesture(start, { x: 100, y: 100, t: 90 }, "mouse", true)).toBe("tap");
+  });
+
+  it("ignores a long press that never moved", () => {
+    expect(classifyGesture(start, { x: 102, y: 101, t: 900 }, "touch", true)).toBe("none");
+  });
+
+  it("tears on sideways and diagonal drags", () => {
+    expect(classifyGesture(start, { x: 160, y: 110, t: 80 }, "touch", false)).toBe("tear");
+    expect(classifyGesture(start, { x: 140, y: 170, t: 80 }, "touch", false)).toBe("tear");
+  });
+
+  it("leaves steep touch drags to the page as scrolls", () => {
+    expect(classifyGesture(start, { x: 105, y: 40, t: 80 }, "touch", false)).toBe("scroll");
+    expect(classifyGesture(start, { x: 95, y: 180, t: 400 }, "touch", true)).toBe("scroll");
+  });
+
+  it("lets a mouse tear straight down", () => {
+    expect(classifyGesture(start, { x: 100, y: 180, t: 80 }, "mouse", false)).toBe("tear");
+  });
+});
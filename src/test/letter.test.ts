@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeLetterError,
+  formatLetterDate,
+  parseLetter,
+  parseLetterMarkdown,
+} from "@/lib/letter";
+import { letters } from "@/content/letters";
+import { es } from "@/i18n/messages/es";
+
+const rainLetter = letters.rain.letter;
+
+describe("parseLetter", () => {
+  it("accepts the bundled letter", () => {
+    expect(letters.rain.errors).toEqual([]);
+    const result = parseLetter(rainLetter);
+    expect(result.errors).toEqual([]);
+    expect(result.letter).toEqual(rainLetter);
+  });
+
+  it("reports errors as message keys with field paths", () => {
+    const result = parseLetter({
+      ...rainLetter,
+      date: "14/02/2026",
+      paragraphs: ["First", "  "],
+      signature: undefined,
+    });
+    expect(result.letter).toBeNull();
+    expect(result.errors).toContainEqual({ key: "letterError.dateFormat", path: "date" });
+    expect(result.errors).toContainEqual({ key: "letterError.paragraphEmpty", path: "paragraphs.1" });
+    expect(result.errors).toContainEqual({ key: "letterError.missing", path: "signature" });
+  });
+
+  it("describes errors in the reader's language", () => {
+    const t = (key: keyof typeof es, vars?: Record<string, string | number>) =>
+      es[key].replace(/\{(\w+)\}/g, (_, name) => String(vars?.[name]));
+    const [error] = parseLetter({ ...rainLetter, paragraphs: [] }).errors;
+    expect(describeLetterError(error, t)).toBe("paragraphs: Una carta necesita al menos un párrafo");
+    const [line] = parseLetterMarkdown("---\nnot a pair\n---\n\nHi").errors;
+    expect(describeLetterError(line, t)).toBe(
+      'La línea 2 del encabezado debe tener la forma "clave: valor"',
+    );
+  });
+
+  it("rejects raw HTML in paragraphs", () => {
+    const result = parseLetter({ ...rainLetter, paragraphs: ['Hi <img src=x onerror="alert(1)">'] });
+    expect(result.errors).toEqual([{ key: "letterError.rawHtml", path: "paragraphs.0" }]);
+  });
+
+  it("rejects non-objects", () => {
+    expect(parseLetter("hello").letter).toBeNull();
+  });
+});
+
+describe("parseLetterMarkdown", () => {
+  const source = `---
+date: 2026-03-01
+recipient: Sam
+sender: Alex
+salutation: "Dear Sam,"
+closing: Love,
+signature: Alex
+---
+
+First paragraph
+with a break.
+
+> A quoted line
+`;
+
+  it("reads front matter and splits the body into paragraphs", () => {
+    const { letter, errors } = parseLetterMarkdown(source);
+    expect(errors).toEqual([]);
+    expect(letter).toMatchObject({
+      date: "2026-03-01",
+      recipientName: "Sam",
+      salutation: "Dear Sam,",
+      paragraphs: ["First paragraph\nwith a break.", "> A quoted line"],
+    });
+  });
+
+  it("reports unknown keys and missing fields", () => {
+    const { letter, errors } = parseLetterMarkdown(
+      source.replace("closing: Love,", "mood: happy"),
+    );
+    expect(letter).toBeNull();
+    expect(errors).toEqual([
+      { key: "letterError.unknownFrontMatterKey", vars: { key: "mood" } },
+      { key: "letterError.missing", path: "closing" },
+    ]);
+  });
+
+  it("picks the opener and its tear profile", () => {
+    const scratch = parseLetterMarkdown(source.replace("---\n\n", "opener: scratch\n---\n\n"));
+    expect(scratch.letter?.opener).toEqual({ type: "scratch", threshold: 0.55 });
+
+    const tear = parseLetterMarkdown(
+      source.replace("---\n\n", "tear-profile: delicate\n---\n\n"),
+    );
+    expect(tear.letter?.opener).toEqual({ type: "tear", profile: "delicate" });
+
+    const pull = parseLetterMarkdown(source.replace("---\n\n", "tear-mode: pull\n---\n\n"));
+    expect(pull.letter?.opener).toEqual({ type: "tear", mode: "pull" });
+    const unknown = parseLetterMarkdown(source.replace("---\n\n", "tear-mode: snip\n---\n\n"));
+    expect(unknown.letter).toBeNull();
+  });
+
+  it("requires front matter fences", () => {
+    expect(parseLetterMarkdown("Just a body").errors[0]).toEqual({
+      key: "letterError.frontMatterFences",
+    });
+  });
+});
+
+describe("formatLetterDate", () => {
+  it("formats ISO dates for the letter heading", () => {
+    expect(formatLetterDate("2026-02-14")).toBe("February 14, 2026");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseBlock, parseInline } from "@/lib/markdown";
+
+describe("parseInline", () => {
+  it("parses emphasis, strong and script spans", () => {
+    expect(parseInline("a *b* **c** ~d~")).toEqual([
+      { type: "text", value: "a " },
+      { type: "emphasis", children: [{ type: "text", value: "b" }] },
+      { type: "text", value: " " },
+      { type: "strong", children: [{ type: "text", value: "c" }] },
+      { type: "text", value: " " },
+      { type: "script", children: [{ type: "text", value: "d" }] },
+    ]);
+  });
+
+  it("nests strong inside emphasis", () => {
+    expect(parseInline("*a **b***")).toEqual([
+      {
+        type: "emphasis",
+        children: [
+          { type: "text", value: "a " },
+          { type: "strong", children: [{ type: "text", value: "b" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps unmatched and escaped markers as text", () => {
+    expect(parseInline("2 * 3 and \\*not\\*")).toEqual([
+      { type: "text", value: "2 * 3 and *not*" },
+    ]);
+  });
+
+  it("turns newlines into line breaks", () => {
+    expect(parseInline("a\nb")).toEqual([
+      { type: "text", value: "a" },
+      { type: "break" },
+      { type: "text", value: "b" },
+    ]);
+  });
+
+  it("leaves HTML as literal text", () => {
+    expect(parseInline("<b>hi</b>")).toEqual([{ type: "text", value: "<b>hi</b>" }]);
+  });
+});
+
+describe("parseBlock", () => {
+  it("recognises block quotes", () => {
+    expect(parseBlock("> one\n> two")).toEqual({
+      type: "blockquote",
+      children: [
+        { type: "text", value: "one" },
+        { type: "break" },
+        { type: "text", value: "two" },
+      ],
+    });
+  });
+});
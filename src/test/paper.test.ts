@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { fractalNoise, paperGrain, paperPixels, paperPresets, valueNoise } from "@/lib/paper";
+
+const SIZE = 64;
+
+describe("valueNoise", () => {
+  it("is repeatable for a seed and stays in range", () => {
+    const a = valueNoise(7, 4, SIZE);
+    const b = valueNoise(7, 4, SIZE);
+    for (let x = 0; x < SIZE; x += 5) {
+      for (let y = 0; y < SIZE; y += 7) {
+        expect(a(x, y)).toBe(b(x, y));
+        expect(Math.abs(a(x, y))).toBeLessThanOrEqual(1);
+      }
+    }
+    expect(valueNoise(8, 4, SIZE)(10, 10)).not.toBe(a(10, 10));
+  });
+
+  it("wraps around the tile", () => {
+    const noise = fractalNoise(3, 4, SIZE);
+    expect(noise(SIZE + 5, 9)).toBeCloseTo(noise(5, 9));
+    expect(noise(5, 9 - SIZE)).toBeCloseTo(noise(5, 9));
+  });
+});
+
+describe("paperGrain", () => {
+  it("gives each paper its own repeatable grain", () => {
+    const handmade = paperGrain(paperPresets.handmade, 1, SIZE);
+    expect(paperGrain(paperPresets.handmade, 1, SIZE)).toEqual(handmade);
+    expect(paperGrain(paperPresets.kraft, 1, SIZE)).not.toEqual(handmade);
+    expect(paperGrain(paperPresets.linen, 1, SIZE)).not.toEqual(handmade);
+    expect(handmade.every((v) => v >= -1 && v <= 1)).toBe(true);
+  });
+
+  it("leaves the tile transparent at zero strength", () => {
+    const pixels = paperPixels(paperPresets.kraft, 0, 1, SIZE);
+    expect(pixels).toHaveLength(SIZE * SIZE * 4);
+    expect(pixels.filter((_, i) => i % 4 === 3).every((a) => a === 0)).toBe(true);
+  });
+});
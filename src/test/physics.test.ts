@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { launchPiece, releaseVelocity, simulateBody, toFlight } from "@/lib/physics";
+
+const centroid = { x: 200, y: 100 };
+const tearCenter = { x: 200, y: 200 };
+const grip = { x: 400, y: 200 };
+
+describe("releaseVelocity", () => {
+  it("measures the pointer over the end of the gesture", () => {
+    const velocity = releaseVelocity([
+      { x: 0, y: 0, t: 0 },
+      { x: 10, y: 0, t: 200 },
+      { x: 30, y: 10, t: 250 },
+      { x: 50, y: 20, t: 300 },
+    ]);
+    // Only the last 80ms count: 20px right and 10px down over 50ms
+    expect(velocity.x).toBeCloseTo(400);
+    expect(velocity.y).toBeCloseTo(200);
+  });
+
+  it("is still when there's nothing to measure", () => {
+    expect(releaseVelocity([{ x: 5, y: 5, t: 10 }])).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("launchPiece", () => {
+  it("follows the hand and springs away from the tear", () => {
+    const body = launchPiece(centroid, tearCenter, grip, { x: 1000, y: 0 });
+    expect(body.vx).toBeGreaterThan(0);
+    // Above the tear, so it moves up
+    expect(body.vy).toBeLessThan(0);
+  });
+
+  it("spins according to which way the paper was pulled", () => {
+    const down = launchPiece(centroid, tearCenter, grip, { x: 0, y: 800 });
+    const up = launchPiece(centroid, tearCenter, grip, { x: 0, y: -800 });
+    expect(down.spin).toBeGreaterThan(0);
+    expect(up.spin).toBeLessThan(0);
+    expect(Math.abs(down.spin)).toBeCloseTo(Math.abs(up.spin));
+  });
+});
+
+describe("simulateBody", () => {
+  it("is deterministic for the same tear", () => {
+    const body = launchPiece(centroid, tearCenter, grip, { x: 900, y: -300 });
+    expect(simulateBody(body, { floor: 800 })).toEqual(simulateBody(body, { floor: 800 }));
+  });
+
+  it("falls under gravity until it leaves the screen", () => {
+    const body = launchPiece(centroid, tearCenter, grip, { x: 900, y: -300 });
+    const states = simulateBody(body, { floor: 800 });
+    const last = states[states.length - 1];
+    expect(last.y).toBeGreaterThanOrEqual(800);
+    expect(last.vy).toBeGreaterThan(0);
+    expect(last.x).toBeGreaterThan(0);
+  });
+
+  it("throws a faster rip further", () => {
+    const gentle = simulateBody(launchPiece(centroid, tearCenter, grip, { x: 300, y: 0 }), {
+      maxDuration: 1,
+    });
+    const hard = simulateBody(launchPiece(centroid, tearCenter, grip, { x: 1500, y: 0 }), {
+      maxDuration: 1,
+    });
+    expect(hard[hard.length - 1].x).toBeGreaterThan(gentle[gentle.length - 1].x);
+  });
+});
+
+describe("toFlight", () => {
+  it("keeps the first and last states as keyframes", () => {
+    const states = simulateBody(launchPiece(centroid, tearCenter, grip, { x: 0, y: 0 }), {
+      maxDuration: 0.5,
+    });
+    const flight = toFlight(states);
+    expect(flight.y[0]).toBe(0);
+    expect(flight.y[flight.y.length - 1]).toBe(states[states.length - 1].y);
+    expect(flight.times[0]).toBe(0);
+    expect(flight.times[flight.times.length - 1]).toBe(1);
+    expect(flight.x).toHaveLength(flight.times.length);
+    expect(flight.duration).toBeCloseTo(0.5, 1);
+  });
+});
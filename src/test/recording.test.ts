@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeRecording,
+  encodeRecording,
+  finalTearPath,
+  replayFrame,
+  tearPathFrom,
+  type TearRecording,
+} from "@/lib/recording";
+import { withCoverDefaults } from "@/lib/cover";
+import { toBase64Url } from "@/lib/share";
+
+const recording: TearRecording = {
+  aspect: 0.75,
+  samples: Array.from({ length: 40 }, (_, i) => ({
+    x: 0.1 + i * 0.02,
+    y: 0.2 + Math.sin(i / 5) * 0.1,
+    t: i * 16.7,
+    pressure: i === 0 ? 0.5 : 0.6,
+  })),
+};
+
+describe("encodeRecording", () => {
+  it("round-trips closely enough to redraw the same tear", () => {
+    const decoded = decodeRecording(encodeRecording(recording));
+    expect(decoded).not.toBeNull();
+    expect(decoded!.aspect).toBeCloseTo(0.75, 3);
+    expect(decoded!.samples).toHaveLength(recording.samples.length);
+    decoded!.samples.forEach((sample, i) => {
+      const original = recording.samples[i];
+      expect(sample.x).toBeCloseTo(original.x, 4);
+      expect(sample.y).toBeCloseTo(original.y, 4);
+      expect(Math.abs(sample.t - original.t)).toBeLessThanOrEqual(1);
+      expect(sample.pressure).toBeCloseTo(original.pressure, 2);
+    });
+  });
+
+  it("carries the letter's tear profile and cover look", () => {
+    const cover = withCoverDefaults({ color: "#2f5d8a", gradient: "radial", paper: "kraft" });
+    const decoded = decodeRecording(encodeRecording({ ...recording, profile: "délicate", cover }));
+    expect(decoded?.profile).toBe("délicate");
+    expect(decoded?.cover).toMatchObject({
+      color: "#2f5d8a",
+      gradient: "radial",
+      paper: "kraft",
+      seal: { color: cover.seal.color },
+    });
+    expect(decoded!.cover!.textureDensity).toBeCloseTo(cover.textureDensity, 2);
+    expect(decoded!.samples).toHaveLength(recording.samples.length);
+
+    const plain = decodeRecording(encodeRecording(recording));
+    expect(plain?.profile).toBeUndefined();
+    expect(plain?.cover).toBeUndefined();
+  });
+
+  it("still plays links made before they carried the profile", () => {
+    // Version 1: aspect, then one sample at the middle of the cover
+    const v1 = toBase64Url(Uint8Array.from([1, 0x1d, 0x4c, 0x80, 0, 0x80, 0, 5, 0x80]));
+    const decoded = decodeRecording(v1);
+    expect(decoded?.aspect).toBeCloseTo(0.75, 3);
+    expect(decoded?.samples[0]).toMatchObject({ x: 0x8000 / 0xffff, t: 5 });
+    expect(decoded?.profile).toBeUndefined();
+  });
+
+  it("is compact", () => {
+    // About 6 bytes a sample once base64'd
+    expect(encodeRecording(recording).length).toBeLessThan(recording.samples.length * 9);
+  });
+
+  it("rejects broken links", () => {
+    const payload = encodeRecording(recording);
+    expect(decodeRecording(payload.slice(0, -3))).toBeNull();
+    expect(decodeRecording("not a recording!")).toBeNull();
+    expect(decodeRecording("")).toBeNull();
+  });
+});
+
+describe("replayFrame", () => {
+  it("grows the tear over time and finishes with the whole path", () => {
+    const early = replayFrame(recording.samples, 100, 400, 533);
+    const late = replayFrame(recording.samples, 500, 400, 533);
+    expect(late.path.length).toBeGreaterThan(early.path.length);
+    expect(late.progress).toBeGreaterThan(early.progress);
+    expect(replayFrame(recording.samples, 10_000, 400, 533).path).toEqual(
+      tearPathFrom(recording.samples),
+    );
+  });
+
+  it("skips points too close together, like the live tear", () => {
+    const jittery = [0, 0.001, 0.002, 0.05].map((d, i) => ({
+      x: 0.5 + d,
+      y: 0.5,
+      t: i * 10,
+      pressure: 0.5,
+    }));
+    expect(tearPathFrom(jittery)).toHaveLength(2);
+    // The finished tear always ends where the pointer let go
+    expect(finalTearPath(jittery).at(-1)).toEqual({ x: 0.55, y: 0.5 });
+  });
+});
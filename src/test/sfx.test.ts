@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { grainParams } from "@/lib/sfx";
+
+describe("grainParams", () => {
+  it("makes faster pulls louder and longer", () => {
+    const slow = grainParams(200, 0.5);
+    const fast = grainParams(1600, 0.5);
+    expect(fast.gain).toBeGreaterThan(slow.gain);
+    expect(fast.duration).toBeGreaterThan(slow.duration);
+  });
+
+  it("rises in pitch as the tear runs across", () => {
+    expect(grainParams(800, 0.9).frequency).toBeGreaterThan(grainParams(800, 0.1).frequency);
+  });
+
+  it("stays within range for out-of-range input", () => {
+    expect(grainParams(10000, 2)).toEqual(grainParams(1800, 1));
+    expect(grainParams(-50, -1)).toEqual(grainParams(0, 0));
+  });
+});
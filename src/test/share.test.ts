@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { decodeLetter, encodeLetter } from "@/lib/share";
+import { letters } from "@/content/letters";
+
+const rainLetter = letters.rain.letter;
+
+describe("share links", () => {
+  it("round-trips a letter through a URL-safe payload", async () => {
+    const payload = await encodeLetter(rainLetter);
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const result = await decodeLetter(payload);
+    expect(result.letter).toEqual(rainLetter);
+  });
+
+  it("reports truncated links", async () => {
+    const payload = await encodeLetter(rainLetter);
+    const result = await decodeLetter(payload.slice(0, payload.length / 2));
+    expect(result.letter).toBeNull();
+    expect(result.errors).toEqual([{ key: "letterError.incompleteLink" }]);
+  });
+
+  it("reports malformed links", async () => {
+    const result = await decodeLetter("not a letter!");
+    expect(result.letter).toBeNull();
+  });
+
+  it("validates the decoded letter", async () => {
+    const payload = await encodeLetter({ ...rainLetter, paragraphs: [] });
+    const result = await decodeLetter(payload);
+    expect(result.errors).toEqual([{ key: "letterError.noParagraphs", path: "paragraphs" }]);
+  });
+});
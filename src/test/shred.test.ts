@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  createFragmentTree,
+  detachedArea,
+  fragmentAt,
+  leafFragments,
+  tearFragment,
+} from "@/lib/shred";
+import { polygonArea } from "@/lib/tear";
+
+const totalArea = (root: ReturnType<typeof createFragmentTree>) =>
+  leafFragments(root).reduce((sum, f) => sum + Math.abs(polygonArea(f.polygon)), 0);
+
+describe("shredding the cover", () => {
+  it("runs a tear across the fragment out to its edges", () => {
+    const root = tearFragment(createFragmentTree(), [
+      { x: 0.02, y: 0.5 },
+      { x: 0.5, y: 0.5 },
+      { x: 0.98, y: 0.5 },
+    ]);
+    expect(root.tear![0].x).toBeCloseTo(0);
+    expect(root.tear![root.tear!.length - 1].x).toBeCloseTo(1);
+    expect(totalArea(root)).toBeCloseTo(1, 6);
+
+    // The bottom half has lost its hold on the top edge and falls away
+    const [hanging, fallen] = [...root.children!].sort(
+      (a, b) => Number(a.detached) - Number(b.detached),
+    );
+    expect(hanging.detached).toBe(false);
+    expect(hanging.polygon).toContainEqual({ x: 1, y: 0 });
+    expect(fallen.detached).toBe(true);
+    expect(fallen.polygon).toContainEqual({ x: 1, y: 1 });
+    expect(detachedArea(root)).toBeCloseTo(0.5, 1);
+  });
+
+  it("leaves a fragment whole when the tear stops partway", () => {
+    const root = createFragmentTree();
+    // From the left edge to the middle, and from the middle to the right edge
+    expect(tearFragment(root, [{ x: 0.02, y: 0.5 }, { x: 0.5, y: 0.5 }])).toBe(root);
+    expect(tearFragment(root, [{ x: 0.5, y: 0.5 }, { x: 0.98, y: 0.5 }])).toBe(root);
+  });
+
+  it("keeps both strips of a top-to-bottom tear hanging", () => {
+    const root = tearFragment(createFragmentTree(), [
+      { x: 0.5, y: 0.01 },
+      { x: 0.5, y: 0.99 },
+    ]);
+    expect(leafFragments(root).every((f) => !f.detached)).toBe(true);
+    expect(detachedArea(root)).toBe(0);
+  });
+
+  it("splits only the fragment the tear starts in", () => {
+    let root = tearFragment(createFragmentTree(), [
+      { x: 0.5, y: 0.01 },
+      { x: 0.5, y: 0.99 },
+    ]);
+    // Across the left strip and on into the right one, which is untouched
+    root = tearFragment(root, [
+      { x: 0.02, y: 0.7 },
+      { x: 0.3, y: 0.7 },
+      { x: 0.6, y: 0.7 },
+    ]);
+    const leaves = leafFragments(root);
+    expect(leaves).toHaveLength(3);
+    expect(leaves.filter((f) => f.detached)).toHaveLength(1);
+    expect(detachedArea(root)).toBeCloseTo(0.15, 1);
+    expect(totalArea(root)).toBeCloseTo(1, 6);
+  });
+
+  it("ignores tears that start where the cover has already fallen away", () => {
+    const root = tearFragment(createFragmentTree(), [
+      { x: 0.02, y: 0.5 },
+      { x: 0.98, y: 0.5 },
+    ]);
+    expect(fragmentAt(root, { x: 0.5, y: 0.8 })).toBeUndefined();
+    expect(tearFragment(root, [{ x: 0.5, y: 0.8 }, { x: 0.5, y: 0.9 }])).toBe(root);
+  });
+});
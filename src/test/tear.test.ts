@@ -0,0 +1,266 @@
+import { describe, it, expect } from "vitest";
+import {
+  createTearLine,
+  jaggedTearLine,
+  perimeterPosition,
+  polygonArea,
+  pullApartPath,
+  pullApartProgress,
+  pullApartSpan,
+  splitCover,
+  tearGeometry,
+  tornCoreBand,
+  type TearPoint,
+} from "@/lib/tear";
+import { seededRandom } from "@/lib/random";
+
+// A random point on the given edge: 0 top, 1 right, 2 bottom, 3 left
+function edgePoint(edge: number, t: number): TearPoint {
+  if (edge === 0) return { x: t, y: 0 };
+  if (edge === 1) return { x: 1, y: t };
+  if (edge === 2) return { x: t, y: 1 };
+  return { x: 0, y: t };
+}
+
+const inward: Record<number, TearPoint> = {
+  0: { x: 0, y: 1 },
+  1: { x: -1, y: 0 },
+  2: { x: 0, y: -1 },
+  3: { x: 1, y: 0 },
+};
+
+// Random edge-to-edge tear with a single bend, roughened like a real one
+function randomTear(rng: () => number, startEdge: number, endEdge: number): TearPoint[] {
+  const start = edgePoint(startEdge, 0.1 + rng() * 0.35);
+  const end = edgePoint(endEdge, 0.55 + rng() * 0.35);
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  // Tears that come back to the same edge bow into the cover
+  const depth = startEdge === endEdge ? 0.2 + rng() * 0.4 : (rng() - 0.5) * 0.1;
+  const bend = {
+    x: mid.x + inward[startEdge].x * depth,
+    y: mid.y + inward[startEdge].y * depth,
+  };
+  return jaggedTearLine([start, bend, end], 0.005);
+}
+
+describe("perimeterPosition", () => {
+  it("walks the edges clockwise from the top-left corner", () => {
+    expect(perimeterPosition({ x: 0.25, y: 0 })).toBeCloseTo(0.25);
+    expect(perimeterPosition({ x: 1, y: 0.5 })).toBeCloseTo(1.5);
+    expect(perimeterPosition({ x: 0.25, y: 1 })).toBeCloseTo(2.75);
+    expect(perimeterPosition({ x: 0, y: 0.75 })).toBeCloseTo(3.25);
+  });
+});
+
+describe("splitCover", () => {
+  it("splits a left-to-right tear into a top and a bottom piece", () => {
+    const [a, b] = splitCover([
+      { x: 0, y: 0.4 },
+      { x: 1, y: 0.6 },
+    ]);
+    expect(Math.abs(polygonArea(a))).toBeCloseTo(0.5);
+    expect(Math.abs(polygonArea(b))).toBeCloseTo(0.5);
+    expect(a).toContainEqual({ x: 1, y: 1 });
+    expect(b).toContainEqual({ x: 0, y: 0 });
+  });
+
+  it("splits a top-to-bottom tear into a left and a right piece", () => {
+    const [a, b] = splitCover([
+      { x: 0.3, y: 0 },
+      { x: 0.3, y: 1 },
+    ]);
+    const areas = [a, b].map((piece) => Math.abs(polygonArea(piece))).sort();
+    expect(areas[0]).toBeCloseTo(0.3);
+    expect(areas[1]).toBeCloseTo(0.7);
+  });
+
+  it("cuts a small flap off when the tear returns to the same edge", () => {
+    const [a, b] = splitCover([
+      { x: 0.6, y: 0 },
+      { x: 0.4, y: 0.2 },
+      { x: 0.2, y: 0 },
+    ]);
+    expect(Math.abs(polygonArea(a))).toBeCloseTo(0.04);
+    expect(Math.abs(polygonArea(b))).toBeCloseTo(0.96);
+    expect(a).toHaveLength(3);
+  });
+
+  it("cuts a corner off", () => {
+    const [a, b] = splitCover([
+      { x: 0.8, y: 0 },
+      { x: 1, y: 0.2 },
+    ]);
+    const areas = [a, b].map((piece) => Math.abs(polygonArea(piece))).sort();
+    expect(areas[0]).toBeCloseTo(0.02);
+  });
+
+  it("partitions the cover for random tears between any two edges", () => {
+    const rng = seededRandom(4242);
+    for (let startEdge = 0; startEdge < 4; startEdge++) {
+      for (let endEdge = 0; endEdge < 4; endEdge++) {
+        for (let run = 0; run < 25; run++) {
+          const tear = randomTear(rng, startEdge, endEdge);
+          const pieces = splitCover(tear);
+          const areas = pieces.map(polygonArea);
+
+          // Both pieces are real, wound the same way, and together cover the whole card
+          expect(Math.sign(areas[0])).toBe(Math.sign(areas[1]));
+          expect(Math.abs(areas[0])).toBeGreaterThan(0);
+          expect(Math.abs(areas[1])).toBeGreaterThan(0);
+          expect(Math.abs(areas[0]) + Math.abs(areas[1])).toBeCloseTo(1, 6);
+
+          for (const piece of pieces) {
+            for (const p of piece) {
+              expect(p.x).toBeGreaterThanOrEqual(0);
+              expect(p.x).toBeLessThanOrEqual(1);
+              expect(p.y).toBeGreaterThanOrEqual(0);
+              expect(p.y).toBeLessThanOrEqual(1);
+            }
+          }
+        }
+      }
+    }
+  });
+});
+
+describe("tornCoreBand", () => {
+  it("wraps the tear line with a band of uneven width", () => {
+    const line = jaggedTearLine(
+      [
+        { x: 0, y: 0.5 },
+        { x: 1, y: 0.5 },
+      ],
+      0,
+    );
+    const band = tornCoreBand(line, 0.02);
+    expect(band).toHaveLength(line.length * 2);
+
+    // One side runs along the line and the other comes back on the far side
+    const there = band.slice(0, line.length).map((p) => p.y - 0.5);
+    const back = band.slice(line.length).map((p) => 0.5 - p.y);
+    for (const offset of [...there, ...back]) {
+      expect(offset).toBeGreaterThan(0);
+      expect(offset).toBeLessThanOrEqual(0.0125 + 1e-9);
+    }
+    expect(new Set(there.map((o) => o.toFixed(4))).size).toBeGreaterThan(1);
+    expect(tornCoreBand(line, 0.02)).toEqual(band);
+  });
+
+  it("is empty without a line", () => {
+    expect(tornCoreBand([{ x: 0.5, y: 0.5 }], 0.02)).toEqual([]);
+  });
+});
+
+describe("createTearLine", () => {
+  const rng = seededRandom(31);
+  const path = Array.from({ length: 30 }, (_, i) => ({ x: i / 30, y: 0.4 + rng() * 0.2 }));
+
+  it("runs through every point of the path, jagged in between", () => {
+    const line = jaggedTearLine(path, 0.015);
+    // Three jag points between each pair of path points
+    expect(line).toHaveLength((path.length - 1) * 4 + 1);
+    path.forEach((p, i) => expect(line[i * 4]).toEqual(p));
+
+    // Unroughened, the jags sit evenly along each segment...
+    const straight = jaggedTearLine(path, 0);
+    expect(straight[2].x).toBeCloseTo((path[0].x + path[1].x) / 2);
+    expect(straight[2].y).toBeCloseTo((path[0].y + path[1].y) / 2);
+    // ...and roughening moves them no further than the jaggedness and its micro-jitter
+    const moved = line.map((p, i) => Math.hypot(p.x - straight[i].x, p.y - straight[i].y));
+    expect(Math.max(...moved)).toBeLessThan(0.015 * 1.25);
+    expect(Math.max(...moved)).toBeGreaterThan(0.015 * 0.5);
+    expect(jaggedTearLine(path, 0.015)).toEqual(line);
+  });
+
+  it("grows to the same tear as building it all at once", () => {
+    const line = createTearLine();
+    for (const [i, p] of path.entries()) {
+      line.push(p);
+      if (i % 10 === 9) {
+        expect(line.geometry(i / 30)).toEqual(tearGeometry(path.slice(0, i + 1), i / 30));
+      }
+    }
+    expect(createTearLine().points(0.01)).toEqual([]);
+  });
+
+  it("reaches the edges without reshaping the edge torn so far", () => {
+    const line = createTearLine();
+    path.forEach((p) => line.push(p));
+    const live = line.points(0.02);
+    line.complete();
+    expect(line.path.slice(1, -1)).toEqual(path);
+    // The test path runs left to right, so it's carried out to the left and right edges
+    expect(line.path[0].x).toBe(0);
+    expect(line.path[line.path.length - 1].x).toBe(1);
+    const done = line.points(0.02);
+    // The lead-in and the run-out add the same number of points at either end
+    const lead = (done.length - live.length) / 2;
+    expect(lead).toBeGreaterThan(0);
+    expect(done.slice(lead, lead + live.length)).toEqual(live);
+  });
+
+  it("roughens the lead-in to the edge on both sides of the line", () => {
+    const line = createTearLine();
+    path.forEach((p) => line.push(p));
+    line.complete();
+    const [start, first] = line.path;
+    const length = Math.hypot(first.x - start.x, first.y - start.y);
+    // Jag points between the edge and where the tear began, as signed offsets from the line
+    const offsets = line
+      .points(0.02)
+      .slice(1, 4)
+      .map(
+        (p) =>
+          ((first.x - start.x) * (p.y - start.y) - (first.y - start.y) * (p.x - start.x)) /
+          length,
+      );
+    expect(offsets.every((d) => Math.abs(d) <= 0.02)).toBe(true);
+    expect(offsets.some((d) => d > 0)).toBe(true);
+    expect(offsets.some((d) => d < 0)).toBe(true);
+  });
+});
+
+describe("pull-apart tearing", () => {
+  it("tears square to the fingers, from edge to edge through their midpoint", () => {
+    // Fingers side by side on a portrait cover tear it from top to bottom
+    const { path, middle } = pullApartPath({ x: 0.3, y: 0.4 }, { x: 0.7, y: 0.4 }, 300, 400);
+    expect(path[0].y).toBeCloseTo(0);
+    expect(path[path.length - 1].y).toBeCloseTo(1);
+    expect(path.every((p) => Math.abs(p.x - 0.5) < 1e-9)).toBe(true);
+    expect(middle).toBeCloseTo(0.4);
+
+    // On screen the tear crosses the line between the fingers at a right angle
+    const a = { x: 0.2, y: 0.3 };
+    const b = { x: 0.6, y: 0.5 };
+    const diagonal = pullApartPath(a, b, 300, 400).path;
+    const end = diagonal[diagonal.length - 1];
+    const dot =
+      (end.x - diagonal[0].x) * 300 * (b.x - a.x) * 300 +
+      (end.y - diagonal[0].y) * 400 * (b.y - a.y) * 400;
+    expect(Math.abs(dot)).toBeLessThan(1e-6);
+  });
+
+  it("spreads from the middle and reaches both edges together", () => {
+    expect(pullApartSpan(0.4, 0)).toEqual([0.4, 0.4]);
+    expect(pullApartSpan(0.4, 0.5)).toEqual([0.2, 0.7]);
+    expect(pullApartSpan(0.4, 1)).toEqual([0, 1]);
+  });
+
+  it("grows with how far the fingers have moved apart", () => {
+    expect(pullApartProgress(100, 80, 300, 400)).toBe(0);
+    const partway = pullApartProgress(100, 200, 300, 400);
+    expect(partway).toBeGreaterThan(0);
+    expect(partway).toBeLessThan(1);
+    expect(pullApartProgress(100, 400, 300, 400)).toBe(1);
+  });
+
+  it("shows only the torn share of the line", () => {
+    const line = createTearLine();
+    pullApartPath({ x: 0.3, y: 0.5 }, { x: 0.7, y: 0.5 }, 300, 400).path.forEach((p) => line.push(p));
+    const full = line.geometry(0.5).points;
+    const half = line.geometry(0.5, [0.25, 0.75]).points;
+    expect(half.length).toBeGreaterThan(full.length * 0.45);
+    expect(half.length).toBeLessThan(full.length * 0.55);
+    expect(half[0]).toEqual(full[Math.floor((full.length - 1) * 0.25)]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DEFAULT_TEAR_PROFILE } from "@/lib/tear";
+import {
+  builtInTearProfiles,
+  isBuiltInTearProfile,
+  saveTearProfile,
+  savedTearProfiles,
+  tearProfileNamed,
+  tearProfileNames,
+} from "@/lib/tearProfiles";
+
+describe("tear profiles", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("resolves built-in names and falls back to the classic tear", () => {
+    expect(tearProfileNamed("delicate")).toBe(builtInTearProfiles.delicate);
+    expect(tearProfileNamed(undefined)).toBe(DEFAULT_TEAR_PROFILE);
+    expect(tearProfileNamed("made-up")).toBe(DEFAULT_TEAR_PROFILE);
+  });
+
+  it("doesn't mistake object built-ins for profiles", () => {
+    for (const name of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      expect(tearProfileNamed(name)).toBe(DEFAULT_TEAR_PROFILE);
+    }
+  });
+
+  it("keeps profiles saved in this browser", () => {
+    const custom = { ...DEFAULT_TEAR_PROFILE, reach: 0.5 };
+    saveTearProfile("loose", custom);
+    expect(tearProfileNamed("loose")).toEqual(custom);
+    expect(tearProfileNames()).toEqual(["classic", "delicate", "stubborn", "loose"]);
+  });
+
+  it("won't save over a built-in profile", () => {
+    expect(saveTearProfile("classic", { ...DEFAULT_TEAR_PROFILE, reach: 0.5 })).toBe(false);
+    expect(savedTearProfiles()).toEqual({});
+    expect(tearProfileNamed("classic")).toBe(DEFAULT_TEAR_PROFILE);
+    expect(isBuiltInTearProfile("stubborn")).toBe(true);
+    expect(isBuiltInTearProfile("toString")).toBe(false);
+  });
+
+  it("skips stored profiles it can't use", () => {
+    localStorage.setItem(
+      "tear-profiles",
+      JSON.stringify({ broken: { reach: "far" }, fine: DEFAULT_TEAR_PROFILE }),
+    );
+    expect(Object.keys(savedTearProfiles())).toEqual(["fine"]);
+
+    localStorage.setItem("tear-profiles", "{not json");
+    expect(savedTearProfiles()).toEqual({});
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { fillTemplate, findPlaceholders, templateFields } from "@/lib/templates";
+import { parseLetterMarkdown } from "@/lib/letter";
+import { letterTemplates } from "@/content/templates";
+
+describe("fillTemplate", () => {
+  it("substitutes values and flags unfilled placeholders", () => {
+    const result = fillTemplate("Dear {{ recipientName }}, love {{senderName}} {{petName}}", {
+      recipientName: "Sam",
+      senderName: "  ",
+    });
+    expect(result.text).toBe("Dear Sam, love {{senderName}} {{petName}}");
+    expect(result.missing).toEqual(["senderName", "petName"]);
+  });
+
+  it("lists each placeholder once", () => {
+    expect(findPlaceholders("{{a}} {{b}} {{a}}")).toEqual(["a", "b"]);
+  });
+});
+
+describe("letter templates", () => {
+  it.each(letterTemplates.map((t) => [t.id, t] as const))(
+    "%s produces a valid letter once filled",
+    (_, template) => {
+      const fields = templateFields(template);
+      expect(fields.every((f) => f.label !== f.key)).toBe(true);
+
+      const values = Object.fromEntries(
+        fields.map((f) => [f.key, f.type === "date" ? "2026-02-14" : f.hint ?? "Sam"]),
+      );
+      const filled = fillTemplate(template.source, values);
+      expect(filled.missing).toEqual([]);
+      expect(parseLetterMarkdown(filled.text).errors).toEqual([]);
+    },
+  );
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  FULL_TILT_DEGREES,
+  driftRest,
+  orientationTilt,
+  smoothTilt,
+  subscribeTilt,
+  type Tilt,
+} from "@/lib/tilt";
+
+const resting = { beta: 40, gamma: 0 };
+
+function orient(beta: number | null, gamma: number | null) {
+  window.dispatchEvent(Object.assign(new Event("deviceorientation"), { beta, gamma }));
+}
+
+describe("orientationTilt", () => {
+  it("is flat at the resting angle, however the phone is held", () => {
+    expect(orientationTilt(resting, resting)).toEqual({ x: 0, y: 0 });
+  });
+
+  it("leans toward the side the phone is tipped, up to a full tilt", () => {
+    const right = orientationTilt({ beta: 40, gamma: FULL_TILT_DEGREES / 2 }, resting);
+    expect(right.x).toBeCloseTo(0.25);
+    expect(right.y).toBeCloseTo(0);
+    expect(orientationTilt({ beta: 90, gamma: 0 }, resting).y).toBe(0.5);
+    expect(orientationTilt({ beta: 40, gamma: -80 }, resting).x).toBe(-0.5);
+  });
+
+  it("turns with the screen in landscape", () => {
+    const tipped = { beta: 50, gamma: 0 };
+    expect(orientationTilt(tipped, resting, 90).x).toBeCloseTo(0.25);
+    expect(orientationTilt(tipped, resting, 90).y).toBeCloseTo(0);
+  });
+
+  it("takes the short way round as the phone passes upright", () => {
+    const tilt = orientationTilt({ beta: 40, gamma: -88 }, { beta: 40, gamma: 88 });
+    expect(tilt.x).toBeCloseTo((4 / FULL_TILT_DEGREES) * 0.5);
+  });
+});
+
+describe("smoothing and calibration", () => {
+  it("eases toward new readings instead of jumping", () => {
+    const next = smoothTilt({ x: 0, y: 0 }, { x: 0.5, y: -0.5 });
+    expect(next.x).toBeGreaterThan(0);
+    expect(next.x).toBeLessThan(0.5);
+    expect(next.y).toBeLessThan(0);
+  });
+
+  it("slowly settles on a new way of holding the phone", () => {
+    let rest = resting;
+    for (let i = 0; i < 2000; i++) rest = driftRest(rest, { beta: 60, gamma: 10 });
+    expect(rest.beta).toBeCloseTo(60, 1);
+    expect(rest.gamma).toBeCloseTo(10, 1);
+  });
+});
+
+describe("subscribeTilt", () => {
+  it("measures from the first reading and ignores sensorless events", () => {
+    const seen: Tilt[] = [];
+    const unsubscribe = subscribeTilt((tilt) => seen.push(tilt));
+    orient(null, null);
+    orient(30, 5);
+    expect(seen).toEqual([]);
+    for (let i = 0; i < 30; i++) orient(30, 15);
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen[seen.length - 1].x).toBeGreaterThan(0.2);
+
+    unsubscribe();
+    const count = seen.length;
+    orient(30, -15);
+    expect(seen).toHaveLength(count);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { seededRandom } from "@/lib/random";
+import type { TearPoint } from "@/lib/tear";
+import {
+  MIN_GESTURE_SCORE,
+  createTemplates,
+  gestureStrokes,
+  isShapeLike,
+  recognize,
+  resample,
+  secretTemplates,
+} from "@/lib/unistroke";
+import { letterSecretSchema } from "@/lib/letter";
+
+// A stroke as a hand might draw it: placed on the cover, squashed, tilted and shaky
+function drawn(stroke: TearPoint[], seed: number, tilt = 0.2): TearPoint[] {
+  const rng = seededRandom(seed);
+  return resample(stroke, 40).map(({ x, y }) => {
+    const rx = x * Math.cos(tilt) - y * Math.sin(tilt);
+    const ry = x * Math.sin(tilt) + y * Math.cos(tilt);
+    return { x: 0.5 + rx * 0.012 + (rng() - 0.5) * 0.01, y: 0.4 + ry * 0.01 + (rng() - 0.5) * 0.01 };
+  });
+}
+
+const templates = secretTemplates();
+
+describe("resample", () => {
+  it("spaces points evenly along the stroke", () => {
+    const points = resample([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }], 5);
+    expect(points).toHaveLength(5);
+    expect(points[2].x).toBeCloseTo(1);
+    expect(points[2].y).toBeCloseTo(0);
+    expect(points[4]).toEqual({ x: 1, y: 1 });
+  });
+});
+
+describe("recognize", () => {
+  it("knows a hand-drawn heart either way round", () => {
+    for (const seed of [1, 2, 3]) {
+      const heart = drawn(gestureStrokes.heart, seed);
+      for (const stroke of [heart, [...heart].reverse()]) {
+        const match = recognize(stroke, templates);
+        expect(match?.name).toBe("heart");
+        expect(match!.score).toBeGreaterThan(MIN_GESTURE_SCORE);
+      }
+    }
+  });
+
+  it("tells a star from a heart", () => {
+    const star = drawn(gestureStrokes.star.map((p) => ({ x: p.x * 14, y: p.y * 14 })), 4);
+    expect(recognize(star, templates)?.name).toBe("star");
+  });
+
+  it("ignores tears and scribbles", () => {
+    const tear = Array.from({ length: 30 }, (_, i) => ({ x: i / 30, y: 0.5 + (i % 3) * 0.01 }));
+    expect(recognize(tear, templates)).toBeNull();
+
+    const rng = seededRandom(9);
+    const scribble = Array.from({ length: 40 }, () => ({ x: rng(), y: rng() }));
+    expect(recognize(scribble, templates)!.score).toBeLessThan(MIN_GESTURE_SCORE);
+  });
+
+  it("learns the sender's own shapes", () => {
+    // An "L", drawn down then across
+    const ell = [
+      ...Array.from({ length: 10 }, (_, i) => ({ x: 0.2, y: 0.1 + i * 0.08 })),
+      ...Array.from({ length: 6 }, (_, i) => ({ x: 0.2 + (i + 1) * 0.08, y: 0.82 })),
+    ];
+    const own = secretTemplates({ gesture: "ell", message: "Hi", gestures: [{ name: "ell", points: ell }] });
+    const attempt = ell.map((p, i) => ({ x: p.x + (i % 2) * 0.01, y: p.y * 0.9 + 0.05 }));
+    expect(recognize(attempt, own)?.name).toBe("ell");
+    expect(createTemplates("ell", ell)).toHaveLength(2);
+  });
+
+  it("tells shapes from lines", () => {
+    const one = Array.from({ length: 12 }, (_, i) => ({ x: 0.5 + (i % 2) * 0.01, y: 0.1 + i * 0.06 }));
+    expect(isShapeLike(one)).toBe(false);
+    expect(isShapeLike(drawn(gestureStrokes.heart, 3))).toBe(true);
+  });
+});
+
+describe("letter secrets", () => {
+  it("must name a shape the letter knows", () => {
+    expect(letterSecretSchema.safeParse({ message: "Psst" }).success).toBe(true);
+    const unknown = letterSecretSchema.safeParse({ gesture: "moon", message: "Psst" });
+    expect(unknown.success).toBe(false);
+  });
+
+  it("keeps the built-in names for the built-in shapes", () => {
+    const points = Array.from({ length: 8 }, (_, i) => ({ x: i / 8, y: (i % 2) / 2 }));
+    const secret = (name: string) =>
+      letterSecretSchema.safeParse({ gesture: "heart", message: "Psst", gestures: [{ name, points }] });
+    expect(secret("zigzag").success).toBe(true);
+    expect(secret("heart").success).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import type { Config } from "tailwindcss";
+import plugin from "tailwindcss/plugin";
 
 export default {
   darkMode: ["class"],
@@ -87,5 +88,11 @@ export default {
       },
     },
   },
-  plugins: [require("tailwindcss-animate")],
+  plugins: [
+    require("tailwindcss-animate"),
+    // perspective-[1200px] and friends for the 3D letter and envelope
+    plugin(({ matchUtilities }) => {
+      matchUtilities({ perspective: (value) => ({ perspective: value }) });
+    }),
+  ],
 } satisfies Config;